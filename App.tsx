@@ -1,8 +1,39 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { parseFlowchart, runSimulation } from './services/geminiService';
-import { AppState } from './types';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { parseFlowchart, runSimulation } from './services/aiService';
+import { classifyError, describeError } from './services/aiErrors';
+import { PROVIDER_LABELS, RECORDING_MODE_LABELS, loadAISettings, saveAISettings } from './services/settingsStore';
+import { verifyTrace } from './services/traceVerifier';
+import { SUITE_CASE_DELAY_MS, didTestCasePass, isTestCaseComplete } from './services/testSuite';
+import { createLabId, labFromState, saveLab } from './services/labLibrary';
+import { BLANK_FLOWCHART } from './services/flowchartEditor';
+import { DiagramFormat, DiagramImportError, exportDiagram, importDiagram } from './services/diagramFormats';
+import { downloadTextFile } from './services/download';
+import { IMAGE_FILE_ACCEPT, ImageInputError, MAX_PAGES, filesToPages } from './services/imagePipeline';
+import { hasRegions } from './services/sourceRegions';
+import { SOURCE_LANGUAGE_LABELS, hasLineRanges } from './services/sourceCode';
+import { EMPTY_DEBUG_SETTINGS, findNextBreakpoint, toggleBreakpoint } from './services/breakpoints';
+import { RUBRIC_LABELS, gradeSubmission } from './services/assignment';
+import { VARIABLE_TYPE_LABELS, inputVariables, keepInputs, typedInputs, validateInputs } from './services/variableTypes';
+import { AISettings, AITask, AppState, Assignment, DebugSettings, LabRecord, ParseResult, SourceLanguage, TestCase, TestCaseResult, TraceVerification } from './types';
 import FlowchartRenderer from './components/FlowchartRenderer';
+import TraceTimeline from './components/TraceTimeline';
+import QuizPanel from './components/QuizPanel';
+import SettingsPanel from './components/SettingsPanel';
+import TestSuitePanel from './components/TestSuitePanel';
+import TestResultsTable from './components/TestResultsTable';
+import TraceTableView from './components/TraceTableView';
+import LabLibrary from './components/LabLibrary';
+import FlowchartEditor from './components/FlowchartEditor';
+import CodePanel from './components/CodePanel';
+import VariableInput from './components/VariableInput';
+import StateMemory from './components/StateMemory';
+import DebugPanel from './components/DebugPanel';
+import AssignmentPanel from './components/AssignmentPanel';
+import CameraCapture from './components/CameraCapture';
+import SourceImageView from './components/SourceImageView';
+import SourceCodeView from './components/SourceCodeView';
+import CodeEditor from './components/CodeEditor';
 
 // Fix: Correctly define the AIStudio interface to avoid conflict with existing global declarations.
 // Use 'var' inside 'declare global' to add aistudio to the global scope (including window) 
@@ -18,20 +49,44 @@ declare global {
 const App: React.FC = () => {
   const [state, setState] = useState<AppState & { quotaExhausted: boolean }>({
     description: '',
-    image: null,
+    images: [],
     inputs: {},
     isAnalyzing: false,
     isSimulating: false,
     parsedData: null,
     simulationData: null,
+    verification: null,
     currentStepIndex: -1,
+    testCases: [],
+    testResults: {},
+    isRunningSuite: false,
     showResults: false,
+    isEditing: false,
     errorMessage: null,
     mode: 'text',
+    codeLanguage: 'python',
+    labId: null,
     quotaExhausted: false,
   });
 
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showCode, setShowCode] = useState(false);
+  const [debugSettings, setDebugSettings] = useState<DebugSettings>(EMPTY_DEBUG_SETTINGS);
+  const [lastStop, setLastStop] = useState<string | null>(null);
+  const [isQuizzing, setIsQuizzing] = useState(false);
+  const [assignment, setAssignment] = useState<Assignment | null>(null);
+  const [showAssignments, setShowAssignments] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [isReadingImages, setIsReadingImages] = useState(false);
+  const [showSource, setShowSource] = useState(false);
+  const [hoveredStepId, setHoveredStepId] = useState<number | null>(null);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const suiteCancelledRef = useRef(false);
+  const simulationAbortRef = useRef<AbortController | null>(null);
+  const savedLabRef = useRef<string | null>(null);
 
   useEffect(() => {
     const checkKey = async () => {
@@ -46,6 +101,23 @@ const App: React.FC = () => {
     checkKey();
   }, []);
 
+  // Keep the library copy of the current lab up to date once it has a flowchart,
+  // so neither "New Lab" nor a refresh throws away quota-costly results.
+  useEffect(() => {
+    if (!state.labId || !state.parsedData || state.isAnalyzing || state.isSimulating || state.isRunningSuite) return;
+    const lab = labFromState(state);
+    // Skip saves that would only bump the timestamp, e.g. right after opening a lab
+    const { updatedAt, createdAt, ...content } = lab;
+    const fingerprint = JSON.stringify(content);
+    if (fingerprint === savedLabRef.current) return;
+    const timer = setTimeout(() => {
+      saveLab(lab)
+        .then(() => { savedLabRef.current = fingerprint; })
+        .catch(err => console.error("Failed to save lab:", err));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [state.labId, state.description, state.images, state.mode, state.codeLanguage, state.parsedData, state.inputs, state.simulationData, state.testCases, state.isAnalyzing, state.isSimulating, state.isRunningSuite]);
+
   const handleSelectKey = async () => {
     try {
       if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
@@ -57,98 +129,345 @@ const App: React.FC = () => {
     }
   };
 
-  const handleError = (err: any) => {
-    const errorMessage = err?.message || String(err);
-    if (errorMessage.includes("429") || errorMessage.includes("RESOURCE_EXHAUSTED")) {
-      setState(prev => ({ 
-        ...prev, 
-        quotaExhausted: true, 
-        errorMessage: "The free quota for this lab is currently exhausted. Please select your own API key to continue." 
-      }));
-    } else if (errorMessage.includes("Requested entity was not found")) {
-       setState(prev => ({ 
-        ...prev, 
-        errorMessage: "API key session expired. Please re-select your key." 
-      }));
-      handleSelectKey();
-    } else {
-      setState(prev => ({ ...prev, errorMessage: "An error occurred. Please try again." }));
-    }
+  const handleSaveSettings = (settings: AISettings) => {
+    saveAISettings(settings);
+    setAISettings(settings);
+    setShowSettings(false);
+  };
+
+  const handleError = (err: unknown, phase: AITask) => {
+    const error = classifyError(err, phase);
+    console.error(`${phase} failed (${error.kind}):`, err);
+    if (error.kind === 'cancelled') return;
+    setState(prev => ({
+      ...prev,
+      // Retries already ran out, so a quota error here means the quota is spent rather than briefly throttled
+      quotaExhausted: prev.quotaExhausted || error.kind === 'quota',
+      errorMessage: describeError(error)
+    }));
+    if (error.kind === 'auth') handleSelectKey();
+  };
+
+  const addPages = (pages: string[]) => {
+    setState(prev => ({ ...prev, images: [...prev.images, ...pages].slice(0, MAX_PAGES), mode: 'image' }));
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setState(prev => ({ 
-          ...prev, 
-          image: reader.result as string, 
-          mode: 'image' 
-        }));
-      };
-      reader.readAsDataURL(file);
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    // Lets the same file be picked again
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsReadingImages(true);
+    try {
+      addPages(await filesToPages(files, MAX_PAGES - state.images.length));
+    } catch (err) {
+      console.error("Failed to read images:", err);
+      const errorMessage = err instanceof ImageInputError ? err.message : 'The file could not be read as an image or PDF.';
+      setState(prev => ({ ...prev, errorMessage }));
+    } finally {
+      setIsReadingImages(false);
     }
   };
 
+  const removePage = (index: number) => {
+    setState(prev => ({ ...prev, images: prev.images.filter((_, i) => i !== index) }));
+  };
+
+  const movePageEarlier = (index: number) => {
+    setState(prev => {
+      const images = [...prev.images];
+      [images[index - 1], images[index]] = [images[index], images[index - 1]];
+      return { ...prev, images };
+    });
+  };
+
+  // Pages go along in any mode, as the single image always did, except with code
+  const requestImages = state.images.length > 0 && state.mode !== 'code' ? state.images : undefined;
+  const sourceIsCode = state.mode === 'code';
+  const requestLanguage = sourceIsCode ? state.codeLanguage : undefined;
+
   const handleParse = async () => {
-    if (state.mode === 'text' && !state.description.trim()) return;
-    if (state.mode === 'image' && !state.image) return;
+    if (state.mode !== 'image' && !state.description.trim()) return;
+    if (state.mode === 'image' && state.images.length === 0) return;
+    if (state.mode === 'diagram') {
+      handleImportDiagram();
+      return;
+    }
     
-    setState(prev => ({ ...prev, isAnalyzing: true, errorMessage: null, parsedData: null, simulationData: null }));
+    setState(prev => ({ ...prev, isAnalyzing: true, isEditing: false, errorMessage: null, parsedData: null, simulationData: null, verification: null, testCases: [], testResults: {} }));
     try {
-      const result = await parseFlowchart(state.description, state.image || undefined);
-      const initialInputs = (result.variables || []).reduce((acc, curr) => ({ ...acc, [curr]: '' }), {});
+      const result = await parseFlowchart({ description: state.description, images: requestImages, language: requestLanguage }, aiSettings);
+      // Put the drawing or code next to the parsed flowchart so misreads stand out
+      if ((requestImages && hasRegions(result.digital_flowchart)) || (requestLanguage && hasLineRanges(result.digital_flowchart))) setShowSource(true);
+      const initialInputs = keepInputs(result.variables || [], {});
       setState(prev => ({ 
         ...prev, 
         parsedData: result, 
         inputs: initialInputs,
-        isAnalyzing: false 
+        isAnalyzing: false,
+        labId: prev.labId || createLabId()
       }));
     } catch (err) {
       setState(prev => ({ ...prev, isAnalyzing: false }));
-      handleError(err);
+      handleError(err, 'parse');
+    }
+  };
+
+  // Mermaid and DOT carry the structure explicitly, so no AI call is needed
+  const handleImportDiagram = () => {
+    try {
+      const result = importDiagram(state.description);
+      setState(prev => ({
+        ...prev,
+        parsedData: result,
+        inputs: keepInputs(result.variables, {}),
+        simulationData: null,
+        verification: null,
+        currentStepIndex: -1,
+        testCases: [],
+        testResults: {},
+        showResults: false,
+        isEditing: false,
+        errorMessage: null,
+        labId: prev.labId || createLabId()
+      }));
+    } catch (err) {
+      console.error("Diagram import failed:", err);
+      const errorMessage = err instanceof DiagramImportError ? err.message : 'The diagram could not be imported.';
+      setState(prev => ({ ...prev, errorMessage }));
     }
   };
 
+  const handleExportDiagram = (format: DiagramFormat) => {
+    if (!state.parsedData) return;
+    const content = exportDiagram(state.parsedData, format);
+    if (format === 'mermaid') downloadTextFile('flowchart.mmd', content, 'text/plain');
+    else downloadTextFile('flowchart.dot', content, 'text/vnd.graphviz');
+  };
+
   const handleSimulate = async () => {
     if (!state.parsedData) return;
-    const allFilled = Object.values(state.inputs || {}).every(v => v !== '');
-    if (!allFilled) {
-      setState(prev => ({ ...prev, errorMessage: "Please provide values for all input variables." }));
+    const problems = Object.entries(validateInputs(state.parsedData.variables, state.inputs));
+    if (problems.length > 0) {
+      const [name, message] = problems[0];
+      setState(prev => ({ ...prev, errorMessage: `Please check the input values: ${name} ${message}.` }));
       return;
     }
 
-    setState(prev => ({ ...prev, isSimulating: true, errorMessage: null, currentStepIndex: -1, showResults: false }));
+    const controller = new AbortController();
+    simulationAbortRef.current = controller;
+    setState(prev => ({ ...prev, isSimulating: true, errorMessage: null, simulationData: null, verification: null, currentStepIndex: -1, showResults: false }));
     try {
-      const result = await runSimulation(
-        state.description, 
-        state.inputs, 
-        state.parsedData.digital_flowchart,
-        state.image || undefined
-      );
+      const result = await runSimulation({
+        description: state.description,
+        inputs: typedInputs(state.parsedData.variables, state.inputs),
+        digitalFlowchart: state.parsedData.digital_flowchart,
+        variables: state.parsedData.variables,
+        images: requestImages,
+        language: requestLanguage
+      }, aiSettings, {
+        signal: controller.signal,
+        // Steps reach the stepper while the model is still writing the rest of the trace
+        onSteps: (steps) => {
+          if (controller.signal.aborted) return;
+          setState(prev => ({
+            ...prev,
+            simulationData: { dry_run: steps, is_correct: false, accuracy_score: 0, expected_output: null, actual_output: null },
+            currentStepIndex: Math.max(0, Math.min(prev.currentStepIndex, steps.length - 1))
+          }));
+        }
+      });
+      const verification = verifyTrace(state.parsedData, state.inputs, result);
       setState(prev => ({ 
         ...prev, 
         simulationData: result, 
+        verification,
         isSimulating: false,
-        currentStepIndex: 0 
+        currentStepIndex: Math.max(0, Math.min(prev.currentStepIndex, result.dry_run.length - 1))
       }));
     } catch (err) {
-      setState(prev => ({ ...prev, isSimulating: false }));
-      handleError(err);
+      setState(prev => ({ ...prev, isSimulating: false, simulationData: null, currentStepIndex: -1 }));
+      if (!controller.signal.aborted) handleError(err, 'simulate');
+    } finally {
+      simulationAbortRef.current = null;
     }
   };
 
+  const cancelSimulation = () => {
+    simulationAbortRef.current?.abort();
+  };
+
+  const setTestResult = (caseId: string, result: TestCaseResult) => {
+    setState(prev => ({ ...prev, testResults: { ...prev.testResults, [caseId]: result } }));
+  };
+
+  const handleRunSuite = async () => {
+    const parsed = state.parsedData;
+    if (!parsed) return;
+    const cases = state.testCases;
+    const incomplete = cases.find(c => !isTestCaseComplete(c, parsed.variables));
+    if (incomplete) {
+      setState(prev => ({ ...prev, errorMessage: `"${incomplete.name}" has missing or invalid input values.` }));
+      return;
+    }
+
+    suiteCancelledRef.current = false;
+    setState(prev => ({
+      ...prev,
+      isRunningSuite: true,
+      errorMessage: null,
+      testResults: cases.reduce((acc, c) => ({ ...acc, [c.id]: { status: 'pending' } }), {} as Record<string, TestCaseResult>)
+    }));
+
+    const skipFrom = (index: number) => cases.slice(index).forEach(c => setTestResult(c.id, { status: 'skipped' }));
+
+    // One case at a time, with a pause in between, so the suite stays within quota
+    for (let i = 0; i < cases.length; i++) {
+      const testCase = cases[i];
+      if (suiteCancelledRef.current) {
+        skipFrom(i);
+        break;
+      }
+      if (i > 0) await new Promise(resolve => setTimeout(resolve, SUITE_CASE_DELAY_MS));
+      setTestResult(testCase.id, { status: 'running' });
+      try {
+        const simulation = await runSimulation({
+          description: state.description,
+          inputs: typedInputs(parsed.variables, testCase.inputs),
+          digitalFlowchart: parsed.digital_flowchart,
+          variables: parsed.variables,
+          images: requestImages,
+          language: requestLanguage
+        }, aiSettings);
+        const verification = verifyTrace(parsed, testCase.inputs, simulation);
+        setTestResult(testCase.id, {
+          status: didTestCasePass(testCase, simulation) ? 'passed' : 'failed',
+          simulation,
+          verification
+        });
+      } catch (err) {
+        const error = classifyError(err, 'simulate');
+        setTestResult(testCase.id, { status: 'error', error: describeError(error) });
+        if (error.kind === 'quota') {
+          handleError(error, 'simulate');
+          skipFrom(i + 1);
+          break;
+        }
+      }
+    }
+    setState(prev => ({ ...prev, isRunningSuite: false }));
+  };
+
+  const handleOpenTestCase = (caseId: string) => {
+    const testCase = state.testCases.find(c => c.id === caseId);
+    const result = state.testResults[caseId];
+    if (!testCase || !result?.simulation) return;
+    setState(prev => ({
+      ...prev,
+      inputs: testCase.inputs,
+      simulationData: result.simulation!,
+      verification: result.verification || null,
+      currentStepIndex: 0,
+      showResults: false
+    }));
+  };
+
+  const handleEditFlowchart = () => {
+    if (state.simulationData && !window.confirm("Editing the flowchart discards the current dry run. Continue?")) return;
+    setIsQuizzing(false);
+    setState(prev => ({ ...prev, isEditing: true, errorMessage: null }));
+  };
+
+  // The corrected structure replaces the parsed one; any trace of the old one is stale
+  const handleApplyEdit = (flowchart: ParseResult) => {
+    setState(prev => ({
+      ...prev,
+      parsedData: flowchart,
+      inputs: keepInputs(flowchart.variables, prev.inputs),
+      simulationData: null,
+      verification: null,
+      currentStepIndex: -1,
+      testCases: prev.testCases.map(c => ({ ...c, inputs: keepInputs(flowchart.variables, c.inputs) })),
+      testResults: {},
+      showResults: false,
+      isEditing: false,
+      labId: prev.labId || createLabId()
+    }));
+  };
+
+  const handleOpenLab = (lab: LabRecord) => {
+    const { updatedAt, createdAt, ...content } = lab;
+    savedLabRef.current = JSON.stringify(content);
+    setShowLibrary(false);
+    setState(prev => ({
+      ...prev,
+      description: lab.description,
+      images: lab.images,
+      mode: lab.mode,
+      codeLanguage: lab.codeLanguage || 'python',
+      parsedData: lab.parsedData,
+      inputs: lab.inputs,
+      simulationData: lab.simulationData,
+      verification: lab.parsedData && lab.simulationData ? verifyTrace(lab.parsedData, lab.inputs, lab.simulationData) : null,
+      currentStepIndex: lab.simulationData ? 0 : -1,
+      testCases: lab.testCases,
+      testResults: {},
+      showResults: false,
+      isEditing: false,
+      errorMessage: null,
+      labId: lab.id
+    }));
+  };
+
+  const handleOpenAssignment = (opened: Assignment) => {
+    reset();
+    setAssignment(opened);
+    setShowAssignments(false);
+    setState(prev => ({ ...prev, description: opened.problem }));
+  };
+
   const goToNextStep = () => {
     if (!state.simulationData || !state.simulationData.dry_run) return;
     const nextIdx = state.currentStepIndex + 1;
     if (nextIdx >= state.simulationData.dry_run.length) {
-      setState(prev => ({ ...prev, showResults: true }));
+      // A trace that is still streaming has no verdict yet
+      setState(prev => (prev.isSimulating ? prev : { ...prev, showResults: true }));
     } else {
       setState(prev => ({ ...prev, currentStepIndex: nextIdx }));
     }
   };
 
+  const goToPreviousStep = () => {
+    setState(prev => ({ ...prev, currentStepIndex: Math.max(0, prev.currentStepIndex - 1) }));
+  };
+
+  const goToStep = useCallback((index: number) => {
+    setState(prev => ({ ...prev, currentStepIndex: index }));
+  }, []);
+
+  const continueToBreakpoint = () => {
+    const steps = state.simulationData?.dry_run;
+    if (!steps) return;
+    const hit = findNextBreakpoint(steps, state.currentStepIndex, debugSettings);
+    setLastStop(hit ? `Step ${hit.index + 1}: ${hit.reason}` : 'No breakpoint hit; stopped at the last step');
+    goToStep(hit ? hit.index : steps.length - 1);
+  };
+
+  const startQuiz = () => {
+    setLastStop(null);
+    setState(prev => ({ ...prev, currentStepIndex: 0, showResults: false }));
+    setIsQuizzing(true);
+  };
+
+  // A new trace ends any quiz over the old one
+  useEffect(() => {
+    setIsQuizzing(false);
+  }, [state.simulationData]);
+
+  const finishSimulation = useCallback(() => {
+    setState(prev => (prev.isSimulating ? prev : { ...prev, showResults: true }));
+  }, []);
+
   const currentDryStep = state.simulationData && 
     state.simulationData.dry_run && 
     state.currentStepIndex >= 0 && 
@@ -162,6 +481,28 @@ const App: React.FC = () => {
     ? state.simulationData.dry_run[state.currentStepIndex - 1]
     : null;
 
+  const inputErrors = state.parsedData ? validateInputs(state.parsedData.variables, state.inputs) : {};
+
+  const displayValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+  const currentDiscrepancies = state.verification
+    ? state.verification.discrepancies.filter(d => d.step_index === state.currentStepIndex && d.field !== 'length')
+    : [];
+
+  const getVerificationBadge = (status: TraceVerification['status']) => {
+    if (status === 'verified') return { label: 'Verified by interpreter', icon: 'fa-shield-halved', classes: 'bg-emerald-50 text-emerald-600 border-emerald-100' };
+    if (status === 'mismatch') return { label: 'Interpreter disagrees', icon: 'fa-code-compare', classes: 'bg-rose-50 text-rose-600 border-rose-100' };
+    return { label: 'AI-only', icon: 'fa-robot', classes: 'bg-slate-100 text-slate-500 border-slate-200' };
+  };
+
+  // Inside an assignment the hidden tests decide the score, not the model
+  const assignmentGrade = useMemo(
+    () => (assignment && state.parsedData ? gradeSubmission(assignment, state.parsedData) : null),
+    [assignment, state.parsedData]
+  );
+  const reportScore = assignmentGrade ? assignmentGrade.score : state.simulationData?.accuracy_score || 0;
+  const reportCorrect = assignmentGrade ? assignmentGrade.passed : !!state.simulationData?.is_correct;
+
   const getGrade = (score: number) => {
     if (score >= 90) return { label: 'A', color: 'text-emerald-500', bg: 'bg-emerald-500', border: 'border-emerald-500' };
     if (score >= 80) return { label: 'B', color: 'text-blue-500', bg: 'bg-blue-500', border: 'border-blue-500' };
@@ -170,18 +511,29 @@ const App: React.FC = () => {
   };
 
   const reset = () => {
+    simulationAbortRef.current?.abort();
+    setAssignment(null);
+    setDebugSettings(EMPTY_DEBUG_SETTINGS);
+    setLastStop(null);
     setState({
       description: '',
-      image: null,
+      images: [],
       inputs: {},
       isAnalyzing: false,
       isSimulating: false,
       parsedData: null,
       simulationData: null,
+      verification: null,
       currentStepIndex: -1,
+      testCases: [],
+      testResults: {},
+      isRunningSuite: false,
       showResults: false,
+      isEditing: false,
       errorMessage: null,
       mode: 'text',
+      codeLanguage: 'python',
+      labId: null,
       quotaExhausted: false,
     });
   };
@@ -199,6 +551,25 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="flex items-center gap-4">
+          <button
+            onClick={() => setShowSettings(true)}
+            className="text-xs font-bold text-slate-600 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition border border-slate-200"
+          >
+            <i className="fa-solid fa-sliders mr-2"></i> {PROVIDER_LABELS[aiSettings.provider]}
+            {aiSettings.recording !== 'off' && <span className="ml-1.5 text-indigo-500">· {RECORDING_MODE_LABELS[aiSettings.recording]}</span>}
+          </button>
+          <button
+            onClick={() => setShowLibrary(true)}
+            className="text-xs font-bold text-slate-600 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition border border-slate-200"
+          >
+            <i className="fa-solid fa-folder-open mr-2"></i> Library
+          </button>
+          <button
+            onClick={() => setShowAssignments(true)}
+            className="text-xs font-bold text-slate-600 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition border border-slate-200"
+          >
+            <i className="fa-solid fa-chalkboard-user mr-2"></i> Assignments
+          </button>
           <button 
             onClick={handleSelectKey}
             className="text-xs font-bold text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg transition border border-indigo-100"
@@ -211,6 +582,36 @@ const App: React.FC = () => {
         </div>
       </nav>
 
+      {showSettings && (
+        <SettingsPanel settings={aiSettings} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />
+      )}
+
+      {showLibrary && (
+        <LabLibrary currentLabId={state.labId} onOpen={handleOpenLab} onClose={() => setShowLibrary(false)} />
+      )}
+
+      {showCamera && (
+        <CameraCapture
+          onCapture={(page) => {
+            addPages([page]);
+            setShowCamera(false);
+          }}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+
+      {showAssignments && (
+        <AssignmentPanel
+          active={assignment}
+          parsedData={state.parsedData}
+          description={state.description}
+          testCases={state.testCases}
+          onOpen={handleOpenAssignment}
+          onLeave={() => setAssignment(null)}
+          onClose={() => setShowAssignments(false)}
+        />
+      )}
+
       {state.quotaExhausted && (
         <div className="bg-amber-600 text-white px-6 py-3 flex items-center justify-between animate-in slide-in-from-top duration-300">
           <div className="flex items-center gap-3 text-sm font-bold">
@@ -240,6 +641,19 @@ const App: React.FC = () => {
         
         {/* Sidebar: Config & Variables */}
         <div className="lg:col-span-4 space-y-6">
+          {assignment && (
+            <section className="bg-indigo-600 rounded-3xl p-8 shadow-xl text-white">
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-indigo-200 mb-2">
+                <i className="fa-solid fa-chalkboard-user"></i> Assignment
+              </div>
+              <h2 className="text-lg font-black mb-3">{assignment.title}</h2>
+              <p className="text-sm font-medium leading-relaxed text-indigo-50 whitespace-pre-wrap">{assignment.problem}</p>
+              <p className="mt-4 text-[10px] font-bold uppercase tracking-wider text-indigo-200">
+                Your flowchart is graded against {assignment.tests.length} hidden test{assignment.tests.length === 1 ? '' : 's'}
+              </p>
+            </section>
+          )}
+
           <section className="bg-white rounded-3xl p-8 shadow-xl border border-white">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
@@ -255,6 +669,14 @@ const App: React.FC = () => {
                   onClick={() => setState(prev => ({ ...prev, mode: 'image' }))}
                   className={`px-4 py-2 text-xs font-bold rounded-md transition ${state.mode === 'image' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
                 >Image</button>
+                <button 
+                  onClick={() => setState(prev => ({ ...prev, mode: 'diagram' }))}
+                  className={`px-4 py-2 text-xs font-bold rounded-md transition ${state.mode === 'diagram' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                >Diagram</button>
+                <button 
+                  onClick={() => setState(prev => ({ ...prev, mode: 'code' }))}
+                  className={`px-4 py-2 text-xs font-bold rounded-md transition ${state.mode === 'code' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                >Code</button>
               </div>
             </div>
 
@@ -265,32 +687,103 @@ const App: React.FC = () => {
                 value={state.description}
                 onChange={(e) => setState(prev => ({ ...prev, description: e.target.value }))}
               />
+            ) : state.mode === 'code' ? (
+              <div className="space-y-3">
+                <select
+                  value={state.codeLanguage}
+                  onChange={(e) => setState(prev => ({ ...prev, codeLanguage: e.target.value as SourceLanguage }))}
+                  className="px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-xl text-xs font-bold text-slate-700 outline-none focus:border-indigo-400"
+                >
+                  {(Object.keys(SOURCE_LANGUAGE_LABELS) as SourceLanguage[]).map(lang => (
+                    <option key={lang} value={lang}>{SOURCE_LANGUAGE_LABELS[lang]}</option>
+                  ))}
+                </select>
+                <CodeEditor
+                  value={state.description}
+                  language={state.codeLanguage}
+                  onChange={(code) => setState(prev => ({ ...prev, description: code }))}
+                  placeholder="Paste or type your program..."
+                  className="h-64 rounded-2xl"
+                />
+              </div>
+            ) : state.mode === 'diagram' ? (
+              <textarea 
+                className="w-full h-40 p-5 bg-slate-50 border-2 border-slate-100 rounded-2xl text-xs focus:border-indigo-400 focus:ring-4 focus:ring-indigo-50 outline-none transition resize-none placeholder:text-slate-300 text-black font-mono font-semibold"
+                placeholder={'Paste a Mermaid or Graphviz DOT flowchart...\n\nflowchart TD\n  A([Start]) --> B[/Input n/]'}
+                value={state.description}
+                onChange={(e) => setState(prev => ({ ...prev, description: e.target.value }))}
+              />
             ) : (
-              <div 
-                onClick={() => fileInputRef.current?.click()}
-                className="w-full h-40 border-2 border-dashed border-slate-200 rounded-2xl bg-slate-50 flex flex-col items-center justify-center cursor-pointer hover:bg-slate-100 hover:border-indigo-300 transition group overflow-hidden"
-              >
-                {state.image ? (
-                  <img src={state.image} alt="Upload" className="w-full h-full object-cover" />
-                ) : (
-                  <>
+              <div className="space-y-3">
+                {state.images.length === 0 ? (
+                  <div 
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full h-40 border-2 border-dashed border-slate-200 rounded-2xl bg-slate-50 flex flex-col items-center justify-center cursor-pointer hover:bg-slate-100 hover:border-indigo-300 transition group overflow-hidden"
+                  >
                     <i className="fa-solid fa-camera-retro text-3xl text-slate-300 group-hover:text-indigo-400 mb-2 transition"></i>
                     <p className="text-xs font-bold text-slate-400">Upload hand-drawn logic</p>
-                  </>
+                    <p className="text-[10px] font-semibold text-slate-300 mt-1">Images, HEIC photos or PDF pages</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-3 gap-3">
+                    {state.images.map((page, i) => (
+                      <div key={i} className="relative group aspect-[3/4] rounded-xl overflow-hidden border-2 border-slate-100 bg-slate-50">
+                        <img src={page} alt={`Page ${i + 1}`} className="w-full h-full object-cover" />
+                        <span className="absolute top-1.5 left-1.5 px-1.5 py-0.5 rounded bg-slate-900/70 text-white text-[10px] font-black">{i + 1}</span>
+                        <div className="absolute top-1.5 right-1.5 flex gap-1 opacity-0 group-hover:opacity-100 transition">
+                          {i > 0 && (
+                            <button onClick={() => movePageEarlier(i)} title="Move earlier" className="w-6 h-6 rounded bg-white/90 text-slate-600 text-[10px] hover:text-indigo-600">
+                              <i className="fa-solid fa-arrow-left"></i>
+                            </button>
+                          )}
+                          <button onClick={() => removePage(i)} title="Remove page" className="w-6 h-6 rounded bg-white/90 text-slate-600 text-[10px] hover:text-rose-600">
+                            <i className="fa-solid fa-xmark"></i>
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                    {state.images.length < MAX_PAGES && (
+                      <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="aspect-[3/4] rounded-xl border-2 border-dashed border-slate-200 bg-slate-50 flex flex-col items-center justify-center text-slate-400 hover:bg-slate-100 hover:border-indigo-300 hover:text-indigo-500 transition"
+                      >
+                        <i className="fa-solid fa-plus"></i>
+                        <span className="text-[10px] font-bold mt-1">Add Page</span>
+                      </button>
+                    )}
+                  </div>
                 )}
-                <input type="file" ref={fileInputRef} hidden accept="image/*" onChange={handleFileChange} />
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setShowCamera(true)}
+                    disabled={state.images.length >= MAX_PAGES}
+                    className="text-xs font-bold text-slate-500 hover:text-indigo-600 transition flex items-center gap-2 disabled:opacity-40"
+                  >
+                    <i className="fa-solid fa-camera"></i>
+                    Take Photo
+                  </button>
+                  {isReadingImages ? (
+                    <span className="text-[10px] font-bold text-indigo-500 flex items-center gap-2">
+                      <i className="fa-solid fa-spinner animate-spin"></i>
+                      Preparing images...
+                    </span>
+                  ) : (
+                    <span className="text-[10px] font-bold text-slate-300">{state.images.length} / {MAX_PAGES} pages</span>
+                  )}
+                </div>
+                <input type="file" ref={fileInputRef} hidden multiple accept={IMAGE_FILE_ACCEPT} onChange={handleFileChange} />
               </div>
             )}
 
             <button 
               onClick={handleParse}
-              disabled={state.isAnalyzing}
+              disabled={state.isAnalyzing || isReadingImages}
               className={`mt-6 w-full py-4 rounded-2xl font-black text-sm transition-all flex items-center justify-center gap-3 ${
                 state.isAnalyzing ? 'bg-slate-100 text-slate-400' : 'bg-slate-900 text-white hover:bg-black active:scale-95 shadow-lg'
               }`}
             >
-              {state.isAnalyzing ? <i className="fa-solid fa-spinner animate-spin"></i> : <i className="fa-solid fa-wand-magic-sparkles"></i>}
-              {state.isAnalyzing ? 'Analyzing...' : 'Identify Variables'}
+              {state.isAnalyzing ? <i className="fa-solid fa-spinner animate-spin"></i> : <i className={`fa-solid ${state.mode === 'diagram' ? 'fa-diagram-project' : 'fa-wand-magic-sparkles'}`}></i>}
+              {state.isAnalyzing ? 'Analyzing...' : state.mode === 'diagram' ? 'Import Diagram' : 'Identify Variables'}
             </button>
           </section>
 
@@ -301,42 +794,88 @@ const App: React.FC = () => {
                 Variable Tracker
               </h2>
               <div className="space-y-4">
-                {state.parsedData.variables.map(varName => {
-                  const displayValue = (currentDryStep?.variable_state && currentDryStep.variable_state[varName] !== undefined)
-                    ? currentDryStep.variable_state[varName]
-                    : state.inputs[varName];
+                {inputVariables(state.parsedData.variables).map(variable => {
+                  const varName = variable.name;
+                  const liveValue = currentDryStep?.variable_state ? currentDryStep.variable_state[varName] : undefined;
+                  const inputClasses = `w-full px-5 py-3 border-2 rounded-xl outline-none transition font-mono text-sm text-black font-bold shadow-sm ${
+                    currentDryStep ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 border-slate-100 focus:border-purple-400'
+                  }`;
+                  // Empty fields are only reported when the run is started
+                  const error = state.inputs[varName] ? inputErrors[varName] : undefined;
 
                   return (
                     <div key={varName} className="relative">
-                      <label className="block text-[10px] font-black text-slate-500 uppercase mb-2 ml-1">{varName}</label>
-                      <input 
-                        type="text"
-                        className={`w-full px-5 py-3 border-2 rounded-xl outline-none transition font-mono text-sm text-black font-bold shadow-sm ${
-                          currentDryStep ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 border-slate-100 focus:border-purple-400'
-                        }`}
-                        value={displayValue || ''}
-                        disabled={!!state.simulationData}
-                        onChange={(e) => setState(prev => ({ ...prev, inputs: { ...prev.inputs, [varName]: e.target.value } }))}
-                        placeholder={`Enter initial ${varName}...`}
-                      />
-                      {currentDryStep?.variable_state && currentDryStep.variable_state[varName] !== undefined && (
+                      <label className="flex items-center justify-between text-[10px] font-black text-slate-500 uppercase mb-2 ml-1">
+                        {varName}
+                        <span className="text-slate-300 tracking-widest">{VARIABLE_TYPE_LABELS[variable.type]}</span>
+                      </label>
+                      {liveValue !== undefined ? (
+                        <input type="text" className={inputClasses} value={displayValue(liveValue)} disabled />
+                      ) : (
+                        <VariableInput
+                          variable={variable}
+                          className={inputClasses}
+                          value={state.inputs[varName] ?? ''}
+                          disabled={!!state.simulationData}
+                          invalid={!!error}
+                          onChange={(raw) => setState(prev => ({ ...prev, inputs: { ...prev.inputs, [varName]: raw } }))}
+                        />
+                      )}
+                      {liveValue !== undefined && (
                         <div className="absolute right-3 bottom-3 text-[10px] font-black text-indigo-400 uppercase tracking-tighter">
                           Live Value
                         </div>
                       )}
+                      {error && <p className="mt-1.5 ml-1 text-[11px] font-bold text-rose-500">{varName} {error}</p>}
                     </div>
                   );
                 })}
               </div>
 
-              {!state.simulationData ? (
+              {state.parsedData.variables.some(v => v.role === 'internal') && (
+                <div className="mt-6">
+                  <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Computed by the algorithm</span>
+                  <div className="flex flex-wrap gap-2">
+                    {state.parsedData.variables.filter(v => v.role === 'internal').map(variable => {
+                      const liveValue = currentDryStep?.variable_state ? currentDryStep.variable_state[variable.name] : undefined;
+                      return (
+                        <span key={variable.name} className="px-2.5 py-1 rounded-lg bg-slate-50 border border-slate-100 font-mono text-xs font-bold text-slate-600">
+                          {variable.name}
+                          {liveValue !== undefined
+                            ? <span className="text-indigo-500"> = {displayValue(liveValue)}</span>
+                            : <span className="text-slate-300"> : {variable.type}</span>}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {state.isSimulating ? (
+                <div className="mt-8 p-5 rounded-2xl border-2 border-purple-100 bg-purple-50/50">
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="text-xs font-black text-purple-700 flex items-center gap-2">
+                      <i className="fa-solid fa-brain animate-spin"></i>
+                      {!state.simulationData
+                        ? 'Model is thinking...'
+                        : `Received ${state.simulationData.dry_run.length} step${state.simulationData.dry_run.length === 1 ? '' : 's'}`}
+                    </span>
+                    <button onClick={cancelSimulation} className="text-xs font-bold text-rose-500 hover:bg-rose-50 px-3 py-1.5 rounded-lg transition">
+                      <i className="fa-solid fa-stop mr-1.5"></i> Cancel
+                    </button>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-purple-100 overflow-hidden">
+                    <div className={`h-full bg-purple-500 animate-pulse transition-all ${state.simulationData ? 'w-full' : 'w-1/4'}`}></div>
+                  </div>
+                </div>
+              ) : !state.simulationData ? (
                 <button 
                   onClick={handleSimulate}
-                  disabled={state.isSimulating}
+                  disabled={state.isRunningSuite}
                   className="mt-8 w-full py-4 bg-purple-600 hover:bg-purple-700 text-white rounded-2xl font-black text-sm shadow-xl shadow-purple-100 transition active:scale-95 flex items-center justify-center gap-3"
                 >
-                  {state.isSimulating ? <i className="fa-solid fa-brain animate-spin"></i> : <i className="fa-solid fa-vials"></i>}
-                  {state.isSimulating ? 'Preparing simulation...' : 'Start Dry Run'}
+                  <i className="fa-solid fa-vials"></i>
+                  Start Dry Run
                 </button>
               ) : (
                 <div className="mt-8 p-6 bg-indigo-900 rounded-2xl border border-indigo-700 shadow-inner">
@@ -355,6 +894,19 @@ const App: React.FC = () => {
             </section>
           )}
 
+          {state.parsedData && (
+            <TestSuitePanel
+              variables={state.parsedData.variables || []}
+              cases={state.testCases}
+              results={state.testResults}
+              currentInputs={state.inputs}
+              isRunning={state.isRunningSuite}
+              onChange={(testCases: TestCase[]) => setState(prev => ({ ...prev, testCases }))}
+              onRun={handleRunSuite}
+              onCancel={() => { suiteCancelledRef.current = true; }}
+            />
+          )}
+
           {state.errorMessage && (
             <div className={`rounded-2xl p-5 flex gap-4 text-sm border-2 ${state.quotaExhausted ? 'bg-amber-50 border-amber-100 text-amber-700' : 'bg-rose-50 border-rose-100 text-rose-700'}`}>
               <i className={`fa-solid ${state.quotaExhausted ? 'fa-bolt' : 'fa-circle-exclamation'} mt-1`}></i>
@@ -384,17 +936,83 @@ const App: React.FC = () => {
                   <span className="w-2.5 h-2.5 rounded-full bg-amber-400"></span>
                   <span className="w-2.5 h-2.5 rounded-full bg-emerald-400"></span>
                 </div>
-                <h3 className="font-black text-slate-700 text-xs uppercase tracking-widest ml-2">Digital Simulation</h3>
+                <h3 className="font-black text-slate-700 text-xs uppercase tracking-widest ml-2">{state.isEditing ? 'Flowchart Editor' : 'Digital Simulation'}</h3>
+                {state.parsedData && !state.isEditing && (
+                  <button
+                    onClick={handleEditFlowchart}
+                    disabled={state.isSimulating || state.isRunningSuite}
+                    className="ml-2 text-xs font-bold text-violet-600 hover:bg-violet-50 px-3 py-1.5 rounded-lg transition border border-violet-100 disabled:opacity-40"
+                  >
+                    <i className="fa-solid fa-pen-ruler mr-1.5"></i> Edit Flowchart
+                  </button>
+                )}
+                {state.parsedData && !state.isEditing && (['mermaid', 'dot'] as DiagramFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleExportDiagram(format)}
+                    className="text-xs font-bold text-slate-500 hover:bg-slate-100 px-3 py-1.5 rounded-lg transition border border-slate-200"
+                    title={`Download as ${format === 'mermaid' ? 'Mermaid' : 'Graphviz DOT'}`}
+                  >
+                    <i className="fa-solid fa-download mr-1.5"></i> {format === 'mermaid' ? 'Mermaid' : 'DOT'}
+                  </button>
+                ))}
+                {state.parsedData && !state.isEditing && (state.images.length > 0 || sourceIsCode) && (
+                  <button
+                    onClick={() => setShowSource(prev => !prev)}
+                    className={`text-xs font-bold px-3 py-1.5 rounded-lg transition border ${
+                      showSource ? 'bg-slate-800 text-white border-slate-800' : 'text-slate-500 hover:bg-slate-100 border-slate-200'
+                    }`}
+                    title={sourceIsCode ? 'Show your code next to the flowchart' : 'Show the uploaded drawing next to the flowchart'}
+                  >
+                    <i className={`fa-solid ${sourceIsCode ? 'fa-file-code' : 'fa-image'} mr-1.5`}></i> Source
+                  </button>
+                )}
+                {state.parsedData && !state.isEditing && (
+                  <button
+                    onClick={() => setShowCode(prev => !prev)}
+                    className={`text-xs font-bold px-3 py-1.5 rounded-lg transition border ${
+                      showCode ? 'bg-slate-800 text-white border-slate-800' : 'text-slate-500 hover:bg-slate-100 border-slate-200'
+                    }`}
+                  >
+                    <i className="fa-solid fa-code mr-1.5"></i> Code
+                  </button>
+                )}
               </div>
               
-              {state.simulationData && state.simulationData.dry_run && (
+              {!state.isEditing && !isQuizzing && state.simulationData && state.simulationData.dry_run && (
                 <div className="flex items-center gap-6">
+                  {state.simulationData.dry_run.length > 1 && !state.isSimulating && (
+                    <button
+                      onClick={startQuiz}
+                      className="text-xs font-bold text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg transition border border-indigo-100"
+                      title="Predict each step before it is revealed"
+                    >
+                      <i className="fa-solid fa-graduation-cap mr-1.5"></i> Quiz Me
+                    </button>
+                  )}
+                  {state.verification && (
+                    <span
+                      title={state.verification.summary}
+                      className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border-2 ${getVerificationBadge(state.verification.status).classes}`}
+                    >
+                      <i className={`fa-solid ${getVerificationBadge(state.verification.status).icon} mr-1.5`}></i>
+                      {getVerificationBadge(state.verification.status).label}
+                    </span>
+                  )}
                   <div className="flex flex-col items-end">
                     <div className="text-[10px] font-black text-slate-400 uppercase tracking-wider">Trace Progress</div>
                     <div className="text-xs font-bold text-indigo-600">
                       Step {state.currentStepIndex + 1} / {state.simulationData.dry_run.length}
                     </div>
                   </div>
+                  <button
+                    onClick={goToPreviousStep}
+                    disabled={state.currentStepIndex <= 0}
+                    className="w-12 h-12 rounded-2xl border-2 border-slate-100 text-slate-500 hover:bg-slate-50 hover:text-indigo-600 transition disabled:opacity-30"
+                    title="Previous step"
+                  >
+                    <i className="fa-solid fa-chevron-left text-xs"></i>
+                  </button>
                   <button 
                     onClick={goToNextStep}
                     className={`px-12 py-3.5 rounded-2xl font-black text-sm transition flex items-center gap-3 shadow-xl ${
@@ -403,85 +1021,175 @@ const App: React.FC = () => {
                         : 'bg-indigo-600 text-white hover:bg-indigo-700 hover:scale-105 active:scale-95'
                     }`}
                   >
-                    {state.currentStepIndex === state.simulationData.dry_run.length - 1 ? (state.showResults ? 'Simulation Verified' : 'Finish Simulation') : 'Execute Next Step'} 
+                    {state.currentStepIndex === state.simulationData.dry_run.length - 1
+                      ? (state.isSimulating ? 'Waiting for the model...' : state.showResults ? 'Simulation Verified' : 'Finish Simulation')
+                      : 'Execute Next Step'} 
                     <i className={`fa-solid ${state.showResults ? 'fa-check' : 'fa-chevron-right'} text-xs`}></i>
                   </button>
                 </div>
               )}
             </div>
 
-            <div className="flex-1 flex overflow-hidden">
-              {/* Flowchart Visual */}
-              <div className="flex-1 relative overflow-auto bg-[radial-gradient(#e2e8f0_1px,transparent_1px)] [background-size:24px_24px] flex items-start justify-center p-12">
-                {!state.parsedData ? (
-                  <div className="flex flex-col items-center justify-center h-full text-slate-300 grayscale">
-                    <i className="fa-solid fa-microchip text-9xl mb-8 opacity-20"></i>
-                    <p className="text-sm font-black uppercase tracking-[0.2em] opacity-30">Waiting for algorithm data...</p>
-                  </div>
-                ) : (
-                  <FlowchartRenderer 
+            {state.isEditing ? (
+              <FlowchartEditor
+                initial={state.parsedData || BLANK_FLOWCHART}
+                onApply={handleApplyEdit}
+                onCancel={() => setState(prev => ({ ...prev, isEditing: false }))}
+              />
+            ) : (
+              <div className="flex-1 flex overflow-hidden">
+                {/* Source Code */}
+                {showSource && state.parsedData && sourceIsCode && (
+                  <SourceCodeView
+                    code={state.description}
+                    language={state.codeLanguage}
                     steps={state.parsedData.digital_flowchart || []}
                     activeStepId={currentDryStep?.flowchart_step_id ?? null}
+                    hoveredStepId={hoveredStepId}
+                    onHoverStep={setHoveredStepId}
+                    onClose={() => setShowSource(false)}
                   />
                 )}
-              </div>
 
-              {/* Variable Inspector Panel */}
-              {state.simulationData && (
-                <div className="w-80 bg-slate-900 border-l border-slate-800 flex flex-col">
-                  <div className="p-6 border-b border-slate-800 flex items-center justify-between bg-slate-950">
-                    <span className="text-white font-black text-[10px] tracking-widest uppercase">State Memory</span>
-                    <span className="flex items-center gap-1.5 text-emerald-400 text-[10px] font-bold">
-                      <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse"></span>
-                      EXECUTING
-                    </span>
-                  </div>
-                  
-                  <div className="flex-1 p-6 space-y-6 overflow-y-auto">
-                    {currentDryStep ? (
-                      Object.entries(currentDryStep.variable_state || {}).map(([key, val]) => {
-                        const prevVal = previousDryStep?.variable_state ? previousDryStep.variable_state[key] : undefined;
-                        const hasChanged = prevVal !== undefined && prevVal !== val;
-
-                        return (
-                          <div key={key} className="group">
-                            <div className="flex items-center justify-between mb-2 px-1">
-                              <span className="text-slate-400 font-mono text-xs font-bold">{key}</span>
-                              {hasChanged && (
-                                <span className="text-[9px] text-amber-400 font-black uppercase animate-bounce">Changed!</span>
-                              )}
-                            </div>
-                            <div className={`bg-slate-800 rounded-2xl p-5 border transition-all duration-500 ${
-                              hasChanged ? 'border-amber-500/50 shadow-[0_0_20px_rgba(245,158,11,0.05)]' : 'border-slate-700'
-                            }`}>
-                              <span className={`font-mono font-bold text-2xl block truncate ${hasChanged ? 'text-amber-400' : 'text-white'}`}>
-                                {JSON.stringify(val)}
-                              </span>
-                            </div>
-                          </div>
-                        );
-                      })
-                    ) : (
-                      <div className="h-full flex items-center justify-center text-slate-600 text-xs text-center p-10 opacity-50 italic">
-                        Click "Execute Next Step" to step through logic
+                {/* Uploaded Drawing */}
+                {showSource && state.parsedData && !sourceIsCode && state.images.length > 0 && (
+                  <SourceImageView
+                    images={state.images}
+                    steps={state.parsedData.digital_flowchart || []}
+                    activeStepId={currentDryStep?.flowchart_step_id ?? null}
+                    hoveredStepId={hoveredStepId}
+                    onHoverStep={setHoveredStepId}
+                    onClose={() => setShowSource(false)}
+                  />
+                )}
+
+                {/* Flowchart Visual */}
+                <div className="flex-1 relative overflow-hidden bg-[radial-gradient(#e2e8f0_1px,transparent_1px)] [background-size:24px_24px] flex items-center justify-center">
+                  {!state.parsedData ? (
+                    <div className="flex flex-col items-center justify-center h-full text-slate-300">
+                      <i className="fa-solid fa-microchip text-9xl mb-8 opacity-20"></i>
+                      <p className="text-sm font-black uppercase tracking-[0.2em] opacity-30">Waiting for algorithm data...</p>
+                      <button
+                        onClick={handleEditFlowchart}
+                        className="mt-8 text-xs font-bold text-violet-600 bg-white hover:bg-violet-50 px-4 py-2 rounded-lg transition border border-violet-100"
+                      >
+                        <i className="fa-solid fa-pen-ruler mr-2"></i> Build Flowchart Manually
+                      </button>
+                    </div>
+                  ) : (
+                    <FlowchartRenderer 
+                      steps={state.parsedData.digital_flowchart || []}
+                      activeStepId={currentDryStep?.flowchart_step_id ?? null}
+                      previousStepId={previousDryStep?.flowchart_step_id ?? null}
+                      breakpoints={debugSettings.breakpoints}
+                      onToggleBreakpoint={(id: number) => setDebugSettings(prev => toggleBreakpoint(prev, id))}
+                      hoveredStepId={showSource ? hoveredStepId : null}
+                      onHoverStep={showSource ? setHoveredStepId : undefined}
+                    />
+                  )}
+                </div>
+
+                {/* Generated Code */}
+                {showCode && state.parsedData && (
+                  <CodePanel
+                    steps={state.parsedData.digital_flowchart || []}
+                    variables={state.parsedData.variables || []}
+                    inputs={state.inputs}
+                    activeStepId={currentDryStep?.flowchart_step_id ?? null}
+                    onClose={() => setShowCode(false)}
+                  />
+                )}
+
+                {/* Variable Inspector Panel */}
+                {state.simulationData && (
+                  <div className="w-80 bg-slate-900 border-l border-slate-800 flex flex-col">
+                    <div className="p-6 border-b border-slate-800 flex items-center justify-between bg-slate-950">
+                      <span className="text-white font-black text-[10px] tracking-widest uppercase">State Memory</span>
+                      <span className="flex items-center gap-1.5 text-emerald-400 text-[10px] font-bold">
+                        <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse"></span>
+                        EXECUTING
+                      </span>
+                    </div>
+                    
+                    <div className="flex-1 p-6 space-y-6 overflow-y-auto">
+                      {currentDryStep ? (
+                        <StateMemory
+                          state={currentDryStep.variable_state || {}}
+                          previousState={previousDryStep?.variable_state || null}
+                          steps={state.parsedData?.digital_flowchart || []}
+                          variables={state.parsedData?.variables || []}
+                        />
+                      ) : (
+                        <div className="h-full flex items-center justify-center text-slate-600 text-xs text-center p-10 opacity-50 italic">
+                          Click "Execute Next Step" to step through logic
+                        </div>
+                      )}
+                    </div>
+
+                    <DebugPanel
+                      settings={debugSettings}
+                      onChange={setDebugSettings}
+                      variableState={currentDryStep?.variable_state}
+                      lastStop={lastStop}
+                    />
+
+                    {currentDiscrepancies.length > 0 && (
+                      <div className="px-6 py-4 bg-rose-950/60 border-t border-rose-900 space-y-1.5">
+                        <div className="flex items-center gap-2 mb-1">
+                          <i className="fa-solid fa-code-compare text-rose-400 text-[10px]"></i>
+                          <span className="text-rose-300 font-black text-[10px] uppercase tracking-widest">Interpreter Disagrees</span>
+                        </div>
+                        {currentDiscrepancies.map((d, i) => (
+                          <p key={i} className="text-rose-200 text-[11px] font-mono leading-snug">{d.message}</p>
+                        ))}
                       </div>
                     )}
-                  </div>
 
-                  <div className="p-6 bg-slate-950 border-t border-slate-800">
-                    <div className="flex items-center gap-2 mb-3">
-                      <div className="w-2 h-2 rounded-full bg-indigo-500"></div>
-                      <span className="text-indigo-400 font-black text-[10px] uppercase">Instruction</span>
+                    <div className="p-6 bg-slate-950 border-t border-slate-800">
+                      <div className="flex items-center gap-2 mb-3">
+                        <div className="w-2 h-2 rounded-full bg-indigo-500"></div>
+                        <span className="text-indigo-400 font-black text-[10px] uppercase">Instruction</span>
+                      </div>
+                      <p className="text-slate-200 text-[13px] leading-relaxed font-semibold italic">
+                        "{String(currentDryStep?.description || "Awaiting execution trigger...")}"
+                      </p>
                     </div>
-                    <p className="text-slate-200 text-[13px] leading-relaxed font-semibold italic">
-                      "{String(currentDryStep?.description || "Awaiting execution trigger...")}"
-                    </p>
                   </div>
-                </div>
-              )}
-            </div>
+                )}
+              </div>
+            )}
+
+            {!state.isEditing && isQuizzing && state.simulationData && state.parsedData && (
+              <QuizPanel
+                steps={state.simulationData.dry_run}
+                flowchart={state.parsedData.digital_flowchart || []}
+                onReveal={goToStep}
+                onExit={() => setIsQuizzing(false)}
+              />
+            )}
+
+            {!state.isEditing && !isQuizzing && state.simulationData && state.simulationData.dry_run && state.simulationData.dry_run.length > 0 && (
+              <TraceTimeline
+                steps={state.simulationData.dry_run}
+                currentIndex={state.currentStepIndex}
+                onSeek={goToStep}
+                onFinish={finishSimulation}
+                flaggedSteps={new Set((state.verification?.discrepancies || []).map(d => d.step_index))}
+                onContinue={continueToBreakpoint}
+              />
+            )}
           </div>
 
+          {state.simulationData && state.parsedData && !isQuizzing && (
+            <TraceTableView
+              simulation={state.simulationData}
+              variables={state.parsedData.variables || []}
+              flowchart={state.parsedData.digital_flowchart || []}
+              currentIndex={state.currentStepIndex}
+              onSelectStep={goToStep}
+            />
+          )}
+
           {/* Detailed Lab Report */}
           {state.showResults && state.simulationData && (
             <div className="grid grid-cols-1 md:grid-cols-12 gap-8 animate-in slide-in-from-bottom-12 duration-700 pb-12">
@@ -492,29 +1200,29 @@ const App: React.FC = () => {
                     <circle cx="18" cy="18" r="16" fill="none" className="stroke-slate-50" strokeWidth="3" />
                     <circle 
                       cx="18" cy="18" r="16" fill="none" 
-                      className={(state.simulationData.accuracy_score || 0) > 80 ? 'stroke-emerald-500' : (state.simulationData.accuracy_score || 0) > 50 ? 'stroke-amber-500' : 'stroke-rose-500'} 
+                      className={reportScore > 80 ? 'stroke-emerald-500' : reportScore > 50 ? 'stroke-amber-500' : 'stroke-rose-500'} 
                       strokeWidth="3.5" 
-                      strokeDasharray={`${state.simulationData.accuracy_score || 0}, 100`} 
+                      strokeDasharray={`${reportScore}, 100`} 
                       strokeLinecap="round" 
                       style={{ transition: 'stroke-dasharray 1s ease-in-out' }}
                     />
                   </svg>
                   <div className="absolute inset-0 flex flex-col items-center justify-center">
-                    <span className="text-4xl font-black text-slate-800">{state.simulationData.accuracy_score || 0}%</span>
-                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mt-1">Logic Score</span>
+                    <span className="text-4xl font-black text-slate-800">{reportScore}%</span>
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mt-1">{assignmentGrade ? 'Rubric Score' : 'Logic Score'}</span>
                   </div>
                   {/* Grade Badge */}
-                  <div className={`absolute -right-2 -top-2 w-14 h-14 rounded-full bg-white shadow-xl border-4 flex items-center justify-center font-black text-2xl animate-in zoom-in-50 duration-500 ${getGrade(state.simulationData.accuracy_score || 0).color} ${getGrade(state.simulationData.accuracy_score || 0).border}`}>
-                    {getGrade(state.simulationData.accuracy_score || 0).label}
+                  <div className={`absolute -right-2 -top-2 w-14 h-14 rounded-full bg-white shadow-xl border-4 flex items-center justify-center font-black text-2xl animate-in zoom-in-50 duration-500 ${getGrade(reportScore).color} ${getGrade(reportScore).border}`}>
+                    {getGrade(reportScore).label}
                   </div>
                 </div>
                 <h4 className="font-black text-slate-800 text-lg mb-1">Logic Precision Index</h4>
-                <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mb-4">Calculation Health: {state.simulationData.accuracy_score > 70 ? 'Optimal' : 'Compromised'}</p>
+                <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mb-4">Calculation Health: {reportScore > 70 ? 'Optimal' : 'Compromised'}</p>
                 <div className={`px-6 py-2.5 rounded-full text-[12px] font-black uppercase tracking-widest border-2 shadow-sm ${
-                  state.simulationData.is_correct ? 'bg-emerald-50 text-emerald-600 border-emerald-100' : 'bg-rose-50 text-rose-600 border-rose-100'
+                  reportCorrect ? 'bg-emerald-50 text-emerald-600 border-emerald-100' : 'bg-rose-50 text-rose-600 border-rose-100'
                 }`}>
-                   <i className={`fa-solid ${state.simulationData.is_correct ? 'fa-arrow-trend-up' : 'fa-arrow-trend-down'} mr-2`}></i>
-                  {state.simulationData.is_correct ? 'Logic Gained' : 'Logic Lost'}
+                   <i className={`fa-solid ${reportCorrect ? 'fa-arrow-trend-up' : 'fa-arrow-trend-down'} mr-2`}></i>
+                  {reportCorrect ? 'Logic Gained' : 'Logic Lost'}
                 </div>
               </div>
 
@@ -523,13 +1231,13 @@ const App: React.FC = () => {
                 <div className="flex items-center justify-between mb-8">
                   <div className="flex items-center gap-4">
                     <div className={`w-14 h-14 rounded-2xl flex items-center justify-center text-2xl shadow-lg ${
-                      state.simulationData.is_correct ? 'bg-emerald-100 text-emerald-600' : 'bg-rose-100 text-rose-600'
+                      reportCorrect ? 'bg-emerald-100 text-emerald-600' : 'bg-rose-100 text-rose-600'
                     }`}>
-                      <i className={`fa-solid ${state.simulationData.is_correct ? 'fa-square-check' : 'fa-triangle-exclamation'}`}></i>
+                      <i className={`fa-solid ${reportCorrect ? 'fa-square-check' : 'fa-triangle-exclamation'}`}></i>
                     </div>
                     <div>
                       <h4 className="font-black text-slate-800 text-2xl tracking-tight">
-                        {state.simulationData.is_correct ? 'Successful Validation' : 'Logic Discrepancy Found'}
+                        {reportCorrect ? 'Successful Validation' : 'Logic Discrepancy Found'}
                       </h4>
                       <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-1">Algorithm Integrity Verification Report</p>
                     </div>
@@ -538,7 +1246,7 @@ const App: React.FC = () => {
 
                 {/* FINAL COMPUTATION HIGHLIGHT - Your output is this... */}
                 <div className={`mb-8 p-10 rounded-[40px] text-white shadow-2xl flex items-center justify-between overflow-hidden relative group transition-all duration-700 hover:scale-[1.01] ${
-                  state.simulationData.is_correct ? 'bg-gradient-to-br from-emerald-600 to-teal-700 shadow-emerald-100' : 'bg-gradient-to-br from-rose-600 to-pink-700 shadow-rose-100'
+                  reportCorrect ? 'bg-gradient-to-br from-emerald-600 to-teal-700 shadow-emerald-100' : 'bg-gradient-to-br from-rose-600 to-pink-700 shadow-rose-100'
                 }`}>
                   <div className="relative z-10 flex-1">
                     <div className="flex items-center gap-2 mb-3">
@@ -552,13 +1260,13 @@ const App: React.FC = () => {
                       </h5>
                     </div>
                     <p className="mt-6 text-sm font-bold bg-white/10 px-4 py-2 rounded-xl w-fit backdrop-blur-sm border border-white/10">
-                      {state.simulationData.is_correct 
+                      {reportCorrect 
                         ? 'PERFECT: The logic flow yielded exactly what was hypothesized.' 
                         : 'ERROR: The output diverged from the expected mathematical result.'}
                     </p>
                   </div>
                   <div className="absolute right-[-30px] top-[-30px] opacity-[0.15] group-hover:rotate-12 transition-transform duration-1000 select-none">
-                    <i className={`fa-solid ${state.simulationData.is_correct ? 'fa-circle-check' : 'fa-circle-xmark'} text-[220px]`}></i>
+                    <i className={`fa-solid ${reportCorrect ? 'fa-circle-check' : 'fa-circle-xmark'} text-[220px]`}></i>
                   </div>
                 </div>
 
@@ -569,14 +1277,68 @@ const App: React.FC = () => {
                     <i className="fa-solid fa-crosshairs absolute right-6 top-6 text-slate-200 text-3xl opacity-0 group-hover:opacity-100 transition-opacity"></i>
                   </div>
                   <div className={`p-7 rounded-[32px] border-2 relative group overflow-hidden ${
-                    state.simulationData.is_correct ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-rose-50 border-rose-100 text-rose-700'
+                    reportCorrect ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-rose-50 border-rose-100 text-rose-700'
                   }`}>
                     <span className="text-[10px] font-black opacity-50 uppercase block mb-3 tracking-widest">Calculated Output</span>
                     <div className="font-mono font-bold text-2xl">{JSON.stringify(state.simulationData.actual_output)}</div>
-                    <i className={`fa-solid ${state.simulationData.is_correct ? 'fa-check' : 'fa-x'} absolute right-6 top-6 text-current text-3xl opacity-10`}></i>
+                    <i className={`fa-solid ${reportCorrect ? 'fa-check' : 'fa-x'} absolute right-6 top-6 text-current text-3xl opacity-10`}></i>
                   </div>
                 </div>
 
+                {state.verification && (
+                  <div className={`mb-8 p-7 rounded-[32px] border-2 ${getVerificationBadge(state.verification.status).classes}`}>
+                    <div className="flex items-center justify-between mb-3">
+                      <span className="text-[10px] font-black uppercase tracking-widest flex items-center gap-2">
+                        <i className={`fa-solid ${getVerificationBadge(state.verification.status).icon}`}></i>
+                        {getVerificationBadge(state.verification.status).label}
+                      </span>
+                      <span className="text-[10px] font-black uppercase tracking-widest opacity-60">
+                        Interpreter output: {JSON.stringify(state.verification.interpreter.actual_output)}
+                      </span>
+                    </div>
+                    <p className="text-sm font-bold">{state.verification.summary}</p>
+                    {state.verification.discrepancies.length > 0 && (
+                      <ul className="mt-4 space-y-1.5 max-h-48 overflow-y-auto">
+                        {state.verification.discrepancies.map((d, i) => (
+                          <li key={i} className="text-xs font-mono flex gap-2">
+                            <i className="fa-solid fa-xmark mt-0.5"></i>
+                            <span>{d.message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {assignmentGrade && (
+                  <div className="mb-8 p-7 rounded-[32px] border-2 border-indigo-100 bg-indigo-50/50 text-indigo-900">
+                    <span className="text-[10px] font-black uppercase tracking-widest flex items-center gap-2 mb-4">
+                      <i className="fa-solid fa-chalkboard-user"></i> Graded against the hidden reference solution
+                    </span>
+                    <div className="space-y-2 mb-4">
+                      {assignmentGrade.criteria.map(c => (
+                        <div key={c.criterion} className="flex items-center gap-3 text-xs font-bold">
+                          <span className="w-40 shrink-0">{RUBRIC_LABELS[c.criterion]}</span>
+                          <div className="flex-1 h-2 rounded-full bg-indigo-100 overflow-hidden">
+                            <div className="h-full bg-indigo-500" style={{ width: `${Math.round(c.earned * 100)}%` }}></div>
+                          </div>
+                          <span className="w-24 text-right font-mono opacity-60">{Math.round(c.earned * 100)}% × {c.weight}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <ul className="space-y-1">
+                      {assignmentGrade.tests.map((t, i) => (
+                        <li key={i} className={`text-xs font-mono flex gap-2 ${t.outputMatches ? 'text-emerald-700' : 'text-rose-700'}`}>
+                          <i className={`fa-solid ${t.outputMatches ? 'fa-check' : 'fa-xmark'} mt-0.5`}></i>
+                          <span>
+                            {t.name}: {t.outputMatches ? 'matches the reference' : t.status === 'completed' ? 'wrong output' : t.message || 'did not finish'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="p-8 bg-slate-900 rounded-[32px] border border-slate-800 relative overflow-hidden flex-1">
                    <div className="flex items-center gap-3 mb-4">
                     <div className="w-8 h-8 rounded-lg bg-indigo-500/20 flex items-center justify-center">
@@ -585,7 +1347,7 @@ const App: React.FC = () => {
                     <span className="text-white font-black text-xs uppercase tracking-widest">CS Instructor's Logic Commentary</span>
                   </div>
                   <p className="text-slate-300 text-[16px] leading-relaxed font-medium italic">
-                    "{state.simulationData.is_correct 
+                    "{reportCorrect 
                       ? "Flawless execution. Your algorithm's branch pathing and variable state mutations are logically sound and mathematically verifiable."
                       : (state.simulationData.mistake_explanation || "The sequence of logic has been compromised. The computed output fails to align with the expected result set. Trace back to the decision point where the value diverged.")
                     }"
@@ -594,6 +1356,10 @@ const App: React.FC = () => {
               </div>
             </div>
           )}
+
+          {state.testCases.length > 0 && Object.keys(state.testResults).length > 0 && (
+            <TestResultsTable cases={state.testCases} results={state.testResults} onOpen={handleOpenTestCase} />
+          )}
         </div>
       </main>
 
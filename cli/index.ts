@@ -0,0 +1,277 @@
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { loadEnv } from "vite";
+import { AISettings, ParseRequest, ParseResult, ProviderId, SimulationResult, SourceLanguage, TraceVerification } from "../types";
+import { classifyError, describeError } from "../services/aiErrors";
+import { parseFlowchart, runSimulation } from "../services/aiService";
+import { DEFAULT_AI_SETTINGS, PROVIDER_LABELS, defaultTaskSettings } from "../services/settingsStore";
+import { buildTraceTable, traceTableToMarkdown } from "../services/traceTable";
+import { verifyTrace } from "../services/traceVerifier";
+import { typedInputs, validateInputs, variableNames } from "../services/variableTypes";
+
+// Batch parse and dry run without the browser. For every description or
+// flowchart image it writes <name>.json (flowchart, inputs and each
+// SimulationResult) and <name>.md (a trace table per run) to the output folder.
+
+const USAGE = `Usage: npm run cli -- [options] <file or folder>...
+
+Sources are text descriptions (.txt, .md), flowchart images (.png, .jpg, .jpeg, .webp)
+or programs (.py, .c, .cpp, .java, .js).
+Folders are expanded to the sources directly inside them.
+
+Options:
+  -i, --inputs <json or file>  Input set, or an array of input sets, e.g. '{"n": 5}'.
+                               A <name>.inputs.json next to a source overrides it.
+  -o, --out <folder>           Where to write the results (default: flowlab-out)
+  -p, --provider <id>          gemini, openai or stub (default: gemini)
+      --base-url <url>         Base URL for the openai provider
+      --replay                 Answer only from the bundled recordings, without network
+  -h, --help                   Show this help
+
+Exit code: 0 when every dry run is correct, 1 when any is_correct is false, 2 on errors.`;
+
+const TEXT_EXTENSIONS = [".txt", ".md"];
+const IMAGE_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+const CODE_LANGUAGES: Record<string, SourceLanguage> = {
+  ".py": "python",
+  ".c": "c",
+  ".cpp": "cpp",
+  ".java": "java",
+  ".js": "javascript",
+};
+const INPUTS_SUFFIX = ".inputs.json";
+
+type InputSet = Record<string, string>;
+
+interface RunReport {
+  inputs: InputSet;
+  result?: SimulationResult;
+  verification?: Pick<TraceVerification, "status" | "summary">;
+  error?: string;
+}
+
+interface SourceReport {
+  source: string;
+  flowchart?: ParseResult;
+  runs: RunReport[];
+  error?: string;
+}
+
+class UsageError extends Error {}
+
+const isSource = (file: string) => {
+  const ext = path.extname(file).toLowerCase();
+  return !file.endsWith(INPUTS_SUFFIX) && (TEXT_EXTENSIONS.includes(ext) || ext in IMAGE_TYPES || ext in CODE_LANGUAGES);
+};
+
+async function expandSources(args: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const arg of args) {
+    if (!existsSync(arg)) throw new UsageError(`No such file or folder: ${arg}`);
+    if ((await stat(arg)).isDirectory()) {
+      const entries = (await readdir(arg)).sort().map(name => path.join(arg, name));
+      files.push(...entries.filter(isSource));
+    } else {
+      files.push(arg);
+    }
+  }
+  return files;
+}
+
+// Values may be given as JSON numbers, booleans or arrays; the app's inputs are the typed-in text
+function toInputSets(raw: unknown, origin: string): InputSet[] {
+  const sets = Array.isArray(raw) ? raw : [raw];
+  return sets.map((set, i) => {
+    if (!set || typeof set !== "object" || Array.isArray(set)) throw new UsageError(`${origin}: input set ${i + 1} is not an object`);
+    return Object.fromEntries(Object.entries(set).map(([k, v]) => [k, typeof v === "string" ? v : JSON.stringify(v)]));
+  });
+}
+
+async function loadInputSets(option: string | undefined): Promise<InputSet[]> {
+  if (!option) return [{}];
+  const inline = /^\s*[[{]/.test(option);
+  const text = inline ? option : await readFile(option, "utf8");
+  try {
+    return toInputSets(JSON.parse(text), inline ? "--inputs" : option);
+  } catch (err) {
+    if (err instanceof UsageError) throw err;
+    throw new UsageError(`${inline ? "--inputs" : option} is not valid JSON`);
+  }
+}
+
+async function readSource(file: string): Promise<ParseRequest> {
+  const ext = path.extname(file).toLowerCase();
+  const mimeType = IMAGE_TYPES[ext];
+  if (!mimeType) return { description: (await readFile(file, "utf8")).trim(), language: CODE_LANGUAGES[ext] };
+  const data = (await readFile(file)).toString("base64");
+  return { description: "", images: [`data:${mimeType};base64,${data}`] };
+}
+
+function summarize(report: SourceReport): string {
+  const lines = [`# ${path.basename(report.source)}`, ""];
+  if (report.error) return [...lines, `Failed: ${report.error}`, ""].join("\n");
+
+  const variables = variableNames(report.flowchart!.variables);
+  report.runs.forEach((run, i) => {
+    lines.push(`## Run ${i + 1}: ${JSON.stringify(run.inputs)}`, "");
+    if (run.error || !run.result) {
+      lines.push(`Failed: ${run.error}`, "");
+      return;
+    }
+    const { result } = run;
+    lines.push(
+      `- Correct: ${result.is_correct ? "yes" : "no"} (accuracy ${result.accuracy_score}%)`,
+      `- Expected output: ${JSON.stringify(result.expected_output)}`,
+      `- Actual output: ${JSON.stringify(result.actual_output)}`,
+      `- Interpreter check: ${run.verification?.summary}`,
+      "",
+      traceTableToMarkdown(buildTraceTable(result, variables, report.flowchart!.digital_flowchart)),
+      ""
+    );
+  });
+  return lines.join("\n");
+}
+
+// Sources that share a name, e.g. a/sub.txt and b/sub.txt or foo.py and foo.txt, get a numbered suffix
+function outputNames(sources: string[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const taken = new Map<string, string>();
+  for (const file of sources) {
+    const stem = path.basename(file, path.extname(file));
+    let name = stem;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${stem}-${n}`;
+    if (name !== stem) console.warn(`! ${file}: ${taken.get(stem.toLowerCase())} also writes "${stem}", results saved as "${name}"`);
+    taken.set(name.toLowerCase(), file);
+    names.set(file, name);
+  }
+  return names;
+}
+
+async function processSource(file: string, defaultInputs: InputSet[], settings: AISettings): Promise<SourceReport> {
+  // flowchart is listed before runs in the written JSON
+  const report: SourceReport = { source: file, flowchart: undefined, runs: [] };
+  const request = await readSource(file);
+  // A broken sidecar fails only its own source, before any AI call is spent on it
+  const sidecar = file.slice(0, -path.extname(file).length) + INPUTS_SUFFIX;
+  let inputSets = defaultInputs;
+  try {
+    if (existsSync(sidecar)) inputSets = await loadInputSets(sidecar);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    report.error = err.message;
+    return report;
+  }
+
+  try {
+    report.flowchart = await parseFlowchart(request, settings);
+  } catch (err) {
+    report.error = describeError(classifyError(err, "parse"));
+    return report;
+  }
+
+  const parsed = report.flowchart;
+
+  for (const inputs of inputSets) {
+    const run: RunReport = { inputs };
+    report.runs.push(run);
+    const invalid = Object.entries(validateInputs(parsed.variables, inputs));
+    if (invalid.length > 0) {
+      run.error = invalid.map(([name, message]) => `${name}: ${message}`).join("; ");
+      continue;
+    }
+    try {
+      run.result = await runSimulation({
+        ...request,
+        inputs: typedInputs(parsed.variables, inputs),
+        digitalFlowchart: parsed.digital_flowchart,
+        variables: parsed.variables,
+      }, settings);
+      const { status, summary } = verifyTrace(parsed, inputs, run.result);
+      run.verification = { status, summary };
+    } catch (err) {
+      run.error = describeError(classifyError(err, "simulate"));
+    }
+  }
+  return report;
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      inputs: { type: "string", short: "i" },
+      out: { type: "string", short: "o", default: "flowlab-out" },
+      provider: { type: "string", short: "p", default: "gemini" },
+      "base-url": { type: "string" },
+      replay: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const provider = values.provider as ProviderId;
+  if (!(provider in PROVIDER_LABELS)) throw new UsageError(`Unknown provider "${provider}"`);
+  const env = loadEnv("production", process.cwd(), "");
+  process.env.API_KEY = env.GEMINI_API_KEY || env.API_KEY || "";
+  const settings: AISettings = {
+    ...DEFAULT_AI_SETTINGS,
+    provider,
+    recording: values.replay ? "replay" : "off",
+    baseUrl: values["base-url"] || env.OPENAI_BASE_URL || DEFAULT_AI_SETTINGS.baseUrl,
+    apiKey: env.OPENAI_API_KEY || "",
+    tasks: defaultTaskSettings(provider),
+  };
+
+  const sources = await expandSources(positionals);
+  if (sources.length === 0) throw new UsageError("No description or image files found");
+  const defaultInputs = await loadInputSets(values.inputs);
+  await mkdir(values.out!, { recursive: true });
+  const names = outputNames(sources);
+
+  let incorrect = 0;
+  let failed = 0;
+  for (const file of sources) {
+    const report = await processSource(file, defaultInputs, settings);
+    const base = path.join(values.out!, names.get(file)!);
+    await writeFile(`${base}.json`, JSON.stringify(report, null, 2));
+    await writeFile(`${base}.md`, summarize(report));
+
+    if (report.error) {
+      failed++;
+      console.error(`✗ ${file}: ${report.error}`);
+    }
+    report.runs.forEach((run, i) => {
+      const label = `${file} run ${i + 1}`;
+      if (!run.result) {
+        failed++;
+        console.error(`✗ ${label}: ${run.error}`);
+      } else if (!run.result.is_correct) {
+        incorrect++;
+        console.log(`✗ ${label}: incorrect, output ${JSON.stringify(run.result.actual_output)}`);
+      } else {
+        console.log(`✓ ${label}: output ${JSON.stringify(run.result.actual_output)}`);
+      }
+    });
+  }
+
+  console.log(`\n${sources.length} file(s), ${incorrect} incorrect, ${failed} failed. Results in ${values.out}`);
+  return failed > 0 ? 2 : incorrect > 0 ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    console.error(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : err);
+    process.exit(2);
+  }
+);
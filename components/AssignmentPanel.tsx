@@ -0,0 +1,174 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Assignment, ParseResult, RubricWeights, TestCase } from '../types';
+import {
+  ASSIGNMENT_FILE_EXTENSION,
+  DEFAULT_RUBRIC,
+  RUBRIC_LABELS,
+  assignmentFileName,
+  checkAssignment,
+  hiddenTestsFromCases,
+  parseAssignmentFile,
+  referenceOutput,
+  serializeAssignment,
+} from '../services/assignment';
+import { downloadTextFile } from '../services/download';
+
+interface Props {
+  // The assignment the student is working on, if any
+  active: Assignment | null;
+  // The teacher's current lab, used as the reference solution
+  parsedData: ParseResult | null;
+  description: string;
+  testCases: TestCase[];
+  onOpen: (assignment: Assignment) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const fieldClasses = 'w-full px-4 py-2.5 bg-slate-50 border-2 border-slate-100 rounded-xl outline-none focus:border-indigo-400 transition text-sm text-slate-700 font-semibold';
+
+const AssignmentPanel: React.FC<Props> = ({ active, parsedData, description, testCases, onOpen, onLeave, onClose }) => {
+  const [title, setTitle] = useState('');
+  const [problem, setProblem] = useState(description);
+  const [rubric, setRubric] = useState<RubricWeights>(DEFAULT_RUBRIC);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const draft: Assignment | null = parsedData
+    ? { title, problem, reference: parsedData, tests: hiddenTestsFromCases(testCases), rubric }
+    : null;
+  const problems = useMemo(() => (draft ? checkAssignment(draft) : []), [title, problem, parsedData, testCases, rubric]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onOpen(parseAssignmentFile(await file.text()));
+    } catch (err: any) {
+      setError(err?.message || String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-8" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <i className="fa-solid fa-chalkboard-user text-indigo-500"></i>
+            Assignments
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="text-xs font-bold text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg transition border border-indigo-100"
+            >
+              <i className="fa-solid fa-file-import mr-1.5"></i> Open Assignment File
+            </button>
+            <input type="file" ref={importInputRef} hidden accept={`${ASSIGNMENT_FILE_EXTENSION},application/json`} onChange={handleImport} />
+            <button onClick={onClose} className="w-8 h-8 rounded-lg text-slate-400 hover:bg-slate-100 transition">
+              <i className="fa-solid fa-xmark"></i>
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-xl p-4 bg-rose-50 border-2 border-rose-100 text-rose-700 text-xs font-bold flex gap-3">
+            <i className="fa-solid fa-circle-exclamation mt-0.5"></i>
+            <span>{error}</span>
+          </div>
+        )}
+
+        {active && (
+          <div className="mb-8 p-4 rounded-2xl border-2 border-indigo-200 bg-indigo-50/50 flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="font-black text-slate-700 truncate">{active.title}</div>
+              <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mt-1">
+                Graded against {active.tests.length} hidden test{active.tests.length === 1 ? '' : 's'}
+              </div>
+            </div>
+            <button onClick={onLeave} className="text-xs font-bold text-rose-500 hover:bg-rose-50 px-3 py-1.5 rounded-lg transition">
+              Leave Assignment
+            </button>
+          </div>
+        )}
+
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Create from this lab</h3>
+        {!draft ? (
+          <p className="text-xs font-semibold text-slate-400 text-center py-6">
+            Identify or build the reference flowchart first; the app does not show it to students.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-xs font-semibold text-slate-500 leading-relaxed">
+              The current flowchart ({draft.reference.digital_flowchart.length} blocks) becomes the hidden reference solution and the
+              Test Suite's inputs become the hidden tests. The app shows students only the title and problem statement.
+            </p>
+            <p className="text-[11px] font-semibold text-amber-700 bg-amber-50 rounded-lg px-3 py-2 leading-relaxed">
+              <i className="fa-solid fa-triangle-exclamation mr-1.5"></i>
+              The solution and tests are only obfuscated in the exported file, not encrypted. Anyone who opens the file in a text
+              editor can decode them, so do not rely on it for graded exams.
+            </p>
+            <input className={fieldClasses} value={title} placeholder="Title" onChange={(e) => setTitle(e.target.value)} />
+            <textarea
+              className={`${fieldClasses} h-28 resize-none`}
+              value={problem}
+              placeholder="Problem statement shown to students"
+              onChange={(e) => setProblem(e.target.value)}
+            />
+
+            <div>
+              <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Rubric Weights</span>
+              <div className="grid grid-cols-3 gap-3">
+                {(Object.keys(RUBRIC_LABELS) as (keyof RubricWeights)[]).map(criterion => (
+                  <label key={criterion} className="block">
+                    <span className="block text-[10px] font-bold text-slate-500 mb-1 ml-1">{RUBRIC_LABELS[criterion]}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      className={`${fieldClasses} font-mono`}
+                      value={rubric[criterion]}
+                      onChange={(e) => setRubric(prev => ({ ...prev, [criterion]: Math.max(0, Number(e.target.value) || 0) }))}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {draft.tests.length > 0 && (
+              <div>
+                <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Hidden Tests</span>
+                <div className="rounded-2xl border-2 border-slate-100 divide-y divide-slate-100">
+                  {draft.tests.map((test, i) => (
+                    <div key={i} className="px-4 py-2 flex items-center justify-between gap-3 text-xs">
+                      <span className="font-bold text-slate-600 truncate">{test.name}</span>
+                      <span className="font-mono text-slate-400 truncate">
+                        reference output {JSON.stringify(referenceOutput(draft, test))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {problems.length > 0 && (
+              <ul className="rounded-xl p-4 bg-amber-50 border-2 border-amber-100 text-amber-700 text-xs font-bold space-y-1">
+                {problems.map((p, i) => <li key={i}><i className="fa-solid fa-triangle-exclamation mr-2"></i>{p}</li>)}
+              </ul>
+            )}
+
+            <button
+              onClick={() => downloadTextFile(assignmentFileName(draft), serializeAssignment(draft), 'application/json')}
+              disabled={problems.length > 0}
+              className="w-full py-3.5 rounded-2xl font-black text-sm bg-indigo-600 hover:bg-indigo-700 text-white shadow-xl shadow-indigo-100 transition disabled:opacity-40 disabled:shadow-none"
+            >
+              <i className="fa-solid fa-file-export mr-2"></i> Export Assignment
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentPanel;
@@ -0,0 +1,199 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CropRect, DEFAULT_PREPROCESS, PreprocessOptions, Rotation, frameFromVideo, preprocessImage, preprocessedPage } from '../services/imagePipeline';
+
+interface Props {
+  onCapture: (page: string) => void;
+  onClose: () => void;
+}
+
+// Smaller selections are treated as a click, not a crop
+const MIN_CROP = 0.05;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const CameraCapture: React.FC<Props> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [frame, setFrame] = useState<HTMLCanvasElement | null>(null);
+  const [options, setOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError('This browser cannot access a camera.');
+      return;
+    }
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } } })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(err => setCameraError(err?.name === 'NotAllowedError' ? 'Camera access was denied.' : 'No camera is available.'));
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  // The preview shows the whole rotated frame, with the crop drawn on top of it
+  useEffect(() => {
+    if (!frame) return;
+    setPreview(preprocessImage(frame, { ...options, crop: null }).toDataURL('image/jpeg', 0.8));
+  }, [frame, options.rotation, options.contrast]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    setFrame(frameFromVideo(video));
+    setOptions(DEFAULT_PREPROCESS);
+  };
+
+  const rotate = (quarterTurns: number) => {
+    setOptions(prev => ({ ...prev, rotation: (((prev.rotation + quarterTurns * 90) % 360 + 360) % 360) as Rotation, crop: null }));
+  };
+
+  const pointFrom = (e: React.PointerEvent<HTMLDivElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    return { x: clamp01((e.clientX - box.left) / box.width), y: clamp01((e.clientY - box.top) / box.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(pointFrom(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = pointFrom(e);
+    const crop: CropRect = {
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    };
+    setOptions(prev => ({ ...prev, crop }));
+  };
+
+  const handlePointerUp = () => {
+    setDragStart(null);
+    setOptions(prev => (prev.crop && (prev.crop.width < MIN_CROP || prev.crop.height < MIN_CROP) ? { ...prev, crop: null } : prev));
+  };
+
+  const usePhoto = () => {
+    if (!frame) return;
+    onCapture(preprocessedPage(frame, options));
+  };
+
+  const buttonClasses = 'px-3 py-2 rounded-lg text-xs font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 transition flex items-center gap-2';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-8" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <i className="fa-solid fa-camera text-indigo-500"></i>
+            Photograph Flowchart
+          </h2>
+          <button onClick={onClose} className="w-8 h-8 rounded-lg text-slate-400 hover:bg-slate-100 transition">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        {cameraError ? (
+          <p className="text-sm font-semibold text-rose-600 bg-rose-50 rounded-xl p-4">{cameraError}</p>
+        ) : (
+          <>
+            <div className="rounded-2xl bg-slate-900 overflow-hidden flex items-center justify-center">
+              <video ref={videoRef} autoPlay playsInline muted className={`w-full max-h-[55vh] object-contain ${frame ? 'hidden' : ''}`} />
+              {frame && preview && (
+                <div
+                  className="relative inline-block cursor-crosshair touch-none select-none"
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                >
+                  <img src={preview} alt="Captured flowchart" draggable={false} className="block max-w-full max-h-[55vh]" />
+                  {options.crop && (
+                    <div
+                      className="absolute border-2 border-indigo-400 shadow-[0_0_0_9999px_rgba(15,23,42,0.55)] pointer-events-none"
+                      style={{
+                        left: `${options.crop.x * 100}%`,
+                        top: `${options.crop.y * 100}%`,
+                        width: `${options.crop.width * 100}%`,
+                        height: `${options.crop.height * 100}%`,
+                      }}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+
+            {frame ? (
+              <>
+                <p className="text-[11px] font-semibold text-slate-400 mt-3 ml-1">Drag across the photo to crop it to the flowchart.</p>
+                <div className="flex flex-wrap items-center gap-3 mt-4">
+                  <button onClick={() => rotate(-1)} className={buttonClasses} title="Rotate left">
+                    <i className="fa-solid fa-rotate-left"></i>
+                  </button>
+                  <button onClick={() => rotate(1)} className={buttonClasses} title="Rotate right">
+                    <i className="fa-solid fa-rotate-right"></i>
+                  </button>
+                  <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase">
+                    Contrast
+                    <input
+                      type="range"
+                      min="0.5"
+                      max="3"
+                      step="0.1"
+                      value={options.contrast}
+                      onChange={(e) => setOptions(prev => ({ ...prev, contrast: Number(e.target.value) }))}
+                      className="accent-indigo-500"
+                    />
+                  </label>
+                  {options.crop && (
+                    <button onClick={() => setOptions(prev => ({ ...prev, crop: null }))} className={buttonClasses}>
+                      <i className="fa-solid fa-crop-simple"></i>
+                      Clear Crop
+                    </button>
+                  )}
+                </div>
+                <div className="flex justify-end gap-3 mt-6">
+                  <button onClick={() => setFrame(null)} className="px-5 py-2.5 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100 transition">
+                    Retake
+                  </button>
+                  <button
+                    onClick={usePhoto}
+                    className="px-6 py-2.5 rounded-xl text-sm font-black bg-slate-900 text-white hover:bg-black active:scale-95 transition shadow-lg"
+                  >
+                    Use Photo
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="flex justify-center mt-6">
+                <button
+                  onClick={capture}
+                  className="px-6 py-3 rounded-2xl text-sm font-black bg-slate-900 text-white hover:bg-black active:scale-95 transition shadow-lg flex items-center gap-2"
+                >
+                  <i className="fa-solid fa-camera"></i>
+                  Capture
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
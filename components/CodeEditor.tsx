@@ -0,0 +1,90 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { LineRange, SourceLanguage } from '../types';
+import { TokenKind, highlightSource, inLineRange } from '../services/sourceCode';
+
+interface Props {
+  value: string;
+  language: SourceLanguage;
+  // Without it the code is read-only and its lines can be hovered
+  onChange?: (value: string) => void;
+  activeLines?: LineRange | null;
+  hoveredLines?: LineRange | null;
+  onHoverLine?: (line: number | null) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  keyword: 'text-violet-300',
+  string: 'text-emerald-300',
+  comment: 'text-slate-500 italic',
+  number: 'text-amber-300',
+  plain: '',
+};
+
+const INDENT = '    ';
+
+// The textarea sits over the highlighted lines with transparent text, so only its caret and selection show
+const CodeEditor: React.FC<Props> = ({ value, language, onChange, activeLines, hoveredLines, onHoverLine, placeholder, className = '' }) => {
+  const activeLineRef = useRef<HTMLDivElement>(null);
+  const lines = useMemo(() => highlightSource(value, language), [value, language]);
+
+  useEffect(() => {
+    activeLineRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeLines?.start]);
+
+  // Tab indents instead of leaving the editor
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || !onChange) return;
+    e.preventDefault();
+    const target = e.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+    requestAnimationFrame(() => target.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+  };
+
+  return (
+    <div className={`bg-slate-900 overflow-auto font-mono text-xs leading-5 ${className}`}>
+      <div className="relative min-w-full w-max py-3">
+        {lines.map((tokens, i) => {
+          const line = i + 1;
+          const active = inLineRange(activeLines, line);
+          const hovered = inLineRange(hoveredLines, line);
+          return (
+            <div
+              key={i}
+              ref={active && line === activeLines!.start ? activeLineRef : undefined}
+              onMouseEnter={onHoverLine && (() => onHoverLine(line))}
+              onMouseLeave={onHoverLine && (() => onHoverLine(null))}
+              className={`flex pr-4 whitespace-pre ${hovered ? 'bg-amber-400/20 text-white' : active ? 'bg-indigo-500/20 text-white' : 'text-slate-300'}`}
+            >
+              <span className={`w-10 shrink-0 text-right pr-3 select-none border-l-2 ${
+                hovered ? 'text-amber-300 border-amber-400' : active ? 'text-indigo-300 border-indigo-400' : 'text-slate-600 border-transparent'
+              }`}>
+                {line}
+              </span>
+              <span>
+                {tokens.length === 0 ? ' ' : tokens.map((token, j) => (
+                  <span key={j} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+                ))}
+              </span>
+            </div>
+          );
+        })}
+        {onChange && (
+          <textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            spellCheck={false}
+            wrap="off"
+            className="absolute inset-y-0 left-10 right-0 py-3 pr-4 resize-none overflow-hidden whitespace-pre bg-transparent text-transparent caret-white selection:bg-indigo-400/40 placeholder:text-slate-600 outline-none font-mono text-xs leading-5"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CodeEditor;
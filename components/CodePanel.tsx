@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CodeLanguage, FlowchartStep, VariableSpec } from '../types';
+import { CODE_FILE_NAMES, CODE_LANGUAGE_LABELS, generateCode } from '../services/codegen';
+import { downloadTextFile } from '../services/download';
+
+interface Props {
+  steps: FlowchartStep[];
+  variables: VariableSpec[];
+  inputs: Record<string, string>;
+  activeStepId: number | null;
+  onClose: () => void;
+}
+
+const MIME_TYPES: Record<CodeLanguage, string> = {
+  pseudocode: 'text/plain',
+  python: 'text/x-python',
+  javascript: 'text/javascript',
+};
+
+const CodePanel: React.FC<Props> = ({ steps, variables, inputs, activeStepId, onClose }) => {
+  const [language, setLanguage] = useState<CodeLanguage>('pseudocode');
+  const [copied, setCopied] = useState(false);
+  const activeLineRef = useRef<HTMLDivElement>(null);
+
+  const code = useMemo(() => generateCode(steps, variables, language, inputs), [steps, variables, language, inputs]);
+  const source = code.lines.map(l => l.text).join('\n') + '\n';
+  const firstActive = activeStepId == null ? -1 : code.lines.findIndex(l => l.stepId === activeStepId);
+
+  useEffect(() => {
+    activeLineRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [firstActive, language]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(source);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard access can be refused; the download button still works
+    }
+  };
+
+  return (
+    <div className="w-96 bg-slate-900 border-l border-slate-800 flex flex-col">
+      <div className="px-4 py-3 border-b border-slate-800 flex items-center gap-1 bg-slate-950">
+        {(Object.keys(CODE_LANGUAGE_LABELS) as CodeLanguage[]).map(lang => (
+          <button
+            key={lang}
+            onClick={() => setLanguage(lang)}
+            className={`px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-md transition ${
+              language === lang ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-slate-300'
+            }`}
+          >
+            {CODE_LANGUAGE_LABELS[lang]}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center">
+          <button onClick={handleCopy} className="w-8 h-8 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition" title="Copy code">
+            <i className={`fa-solid ${copied ? 'fa-check text-emerald-400' : 'fa-copy'} text-xs`}></i>
+          </button>
+          <button
+            onClick={() => downloadTextFile(CODE_FILE_NAMES[language], source, MIME_TYPES[language])}
+            className="w-8 h-8 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition"
+            title={`Download ${CODE_FILE_NAMES[language]}`}
+          >
+            <i className="fa-solid fa-download text-xs"></i>
+          </button>
+          <button onClick={onClose} className="w-8 h-8 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition" title="Hide code">
+            <i className="fa-solid fa-xmark text-xs"></i>
+          </button>
+        </div>
+      </div>
+
+      {!code.structured && (
+        <div className="px-4 py-2 bg-amber-500/10 border-b border-amber-500/20 text-[11px] font-semibold text-amber-300">
+          <i className="fa-solid fa-triangle-exclamation mr-1.5"></i>
+          The jumps in this flowchart do not nest, so it runs as a block-by-block dispatch loop.
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto py-3 font-mono text-xs leading-5">
+        {code.lines.map((line, i) => {
+          const active = activeStepId != null && line.stepId === activeStepId;
+          return (
+            <div
+              key={i}
+              ref={i === firstActive ? activeLineRef : undefined}
+              className={`flex pr-4 whitespace-pre ${active ? 'bg-indigo-500/20 text-white' : 'text-slate-300'}`}
+            >
+              <span className={`w-10 shrink-0 text-right pr-3 select-none ${active ? 'text-indigo-300 border-l-2 border-indigo-400' : 'text-slate-600 border-l-2 border-transparent'}`}>
+                {i + 1}
+              </span>
+              <span>{line.text || ' '}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CodePanel;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { DebugSettings } from '../types';
+import { evaluateWatch } from '../services/breakpoints';
+import { formatValue, truthy } from '../services/expression';
+
+interface Props {
+  settings: DebugSettings;
+  onChange: (settings: DebugSettings) => void;
+  variableState: Record<string, any> | undefined;
+  // Why the last "continue" stopped where it did
+  lastStop: string | null;
+}
+
+const inputClasses = 'flex-1 min-w-0 px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none focus:border-sky-500 transition font-mono text-xs text-white';
+
+const ExpressionForm: React.FC<{ placeholder: string; onAdd: (expression: string) => void }> = ({ placeholder, onAdd }) => {
+  const [draft, setDraft] = useState('');
+  return (
+    <form
+      className="flex items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (draft.trim()) onAdd(draft.trim());
+        setDraft('');
+      }}
+    >
+      <input className={inputClasses} value={draft} placeholder={placeholder} onChange={(e) => setDraft(e.target.value)} />
+      <button type="submit" className="w-7 h-7 shrink-0 rounded-lg text-sky-400 hover:bg-slate-800 transition" title="Add">
+        <i className="fa-solid fa-plus text-xs"></i>
+      </button>
+    </form>
+  );
+};
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button onClick={onClick} className="w-6 h-6 shrink-0 rounded-md text-slate-600 hover:text-rose-400 hover:bg-slate-800 transition" title="Remove">
+    <i className="fa-solid fa-xmark text-[10px]"></i>
+  </button>
+);
+
+const DebugPanel: React.FC<Props> = ({ settings, onChange, variableState, lastStop }) => {
+  const addUnique = (list: string[], expression: string) => (list.includes(expression) ? list : [...list, expression]);
+  const headingClasses = 'block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2';
+
+  return (
+    <div className="p-6 border-t border-slate-800 space-y-5 max-h-72 overflow-y-auto">
+      {lastStop && (
+        <p className="text-[11px] font-bold text-sky-300">
+          <i className="fa-solid fa-circle-pause mr-1.5"></i>{lastStop}
+        </p>
+      )}
+
+      <div>
+        <span className={headingClasses}>Watch</span>
+        <div className="space-y-1.5 mb-2">
+          {settings.watches.map(expression => {
+            const result = evaluateWatch(expression, variableState);
+            return (
+              <div key={expression} className="flex items-center gap-2 font-mono text-xs">
+                <span className="text-slate-400 truncate">{expression}</span>
+                <span className="text-slate-600">=</span>
+                <span className={`flex-1 truncate font-bold ${result.ok ? 'text-white' : 'text-rose-400'}`} title={result.message}>
+                  {result.ok ? formatValue(result.value) : 'error'}
+                </span>
+                <RemoveButton onClick={() => onChange({ ...settings, watches: settings.watches.filter(w => w !== expression) })} />
+              </div>
+            );
+          })}
+        </div>
+        <ExpressionForm placeholder="e.g. arr[i] + 1" onAdd={(expression) => onChange({ ...settings, watches: addUnique(settings.watches, expression) })} />
+      </div>
+
+      <div>
+        <span className={headingClasses}>Break When</span>
+        <div className="space-y-1.5 mb-2">
+          {settings.conditions.map(condition => {
+            const result = evaluateWatch(condition, variableState);
+            const holds = result.ok && truthy(result.value);
+            return (
+              <div key={condition} className="flex items-center gap-2 font-mono text-xs">
+                <span
+                  className={`w-2 h-2 shrink-0 rounded-full ${holds ? 'bg-rose-500' : 'bg-slate-700'}`}
+                  title={result.ok ? (holds ? 'True at this step' : 'False at this step') : result.message}
+                ></span>
+                <span className="flex-1 text-slate-300 truncate">{condition}</span>
+                <RemoveButton onClick={() => onChange({ ...settings, conditions: settings.conditions.filter(c => c !== condition) })} />
+              </div>
+            );
+          })}
+        </div>
+        <ExpressionForm placeholder="e.g. i == 5" onAdd={(condition) => onChange({ ...settings, conditions: addUnique(settings.conditions, condition) })} />
+      </div>
+
+      <div>
+        <span className={headingClasses}>Breakpoints</span>
+        {settings.breakpoints.length === 0 ? (
+          <p className="text-[11px] text-slate-600 italic">Click the dot beside a block in the flowchart to stop there.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {settings.breakpoints.map(id => (
+              <span key={id} className="flex items-center gap-1 pl-2 rounded-md bg-rose-500/10 border border-rose-500/30 text-rose-300 font-mono text-[11px] font-bold">
+                #{id}
+                <RemoveButton onClick={() => onChange({ ...settings, breakpoints: settings.breakpoints.filter(b => b !== id) })} />
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DebugPanel;
@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EdgeBranch, FlowchartStep, ParseResult, ShapeType, VariableRole, VariableType } from '../types';
+import FlowchartRenderer from './FlowchartRenderer';
+import {
+  EditHistory, SHAPE_LABELS, addStep, addVariable, deleteStep, findConnectionProblems, findVariableProblems, materializeEdges, pushHistory,
+  redo, removeVariable, renameVariable, retypeStep, setEdge, setEdgeLabel, setVariableRole, setVariableType, startHistory, undo, updateStepText,
+} from '../services/flowchartEditor';
+import { VARIABLE_ROLES, VARIABLE_TYPES, VARIABLE_TYPE_LABELS } from '../services/variableTypes';
+import { validateParseResult } from '../services/responseValidator';
+
+interface Props {
+  initial: ParseResult;
+  onApply: (flowchart: ParseResult) => void;
+  onCancel: () => void;
+}
+
+const inputClasses = 'w-full px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-lg outline-none focus:border-violet-400 transition text-xs text-black font-bold';
+const labelClasses = 'block text-[9px] font-black text-slate-400 uppercase mb-1 ml-1';
+
+const BRANCHES: Record<'decision' | 'other', { branch: EdgeBranch; label: string }[]> = {
+  decision: [{ branch: 'yes', label: 'Yes goes to' }, { branch: 'no', label: 'No goes to' }],
+  other: [{ branch: 'next', label: 'Next block' }],
+};
+
+const FlowchartEditor: React.FC<Props> = ({ initial, onApply, onCancel }) => {
+  const [history, setHistory] = useState<EditHistory>(() =>
+    startHistory({ variables: [...initial.variables], digital_flowchart: materializeEdges(initial.digital_flowchart) })
+  );
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [newVariable, setNewVariable] = useState('');
+
+  const draft = history.present;
+  const steps = draft.digital_flowchart;
+  const selected = steps.find(s => s.id === selectedId) || null;
+
+  const commit = (next: ParseResult, key?: string) => setHistory(prev => pushHistory(prev, next, key));
+
+  const problems = useMemo(() => [
+    ...validateParseResult(draft).map(v => {
+      const match = v.path.match(/^digital_flowchart\[(\d+)\]/);
+      const block = match ? steps[Number(match[1])] : undefined;
+      return block ? `Block #${block.id}: ${v.message}` : v.message;
+    }),
+    ...findConnectionProblems(steps),
+    ...findVariableProblems(draft.variables),
+  ], [draft, steps]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields their own native undo
+      if ((e.target as HTMLElement).closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        setHistory(undo);
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        setHistory(redo);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handleAdd = (type: ShapeType) => {
+    const result = addStep(draft, type, selectedId);
+    commit(result.flowchart);
+    setSelectedId(result.id);
+  };
+
+  const handleDelete = (id: number) => {
+    commit(deleteStep(draft, id));
+    setSelectedId(null);
+  };
+
+  const targetOptions = (step: FlowchartStep) => steps.filter(s => s.id !== step.id && s.type !== 'start');
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="px-6 py-3 border-b border-slate-100 bg-violet-50/60 flex items-center gap-2 flex-wrap">
+        <button
+          onClick={() => setHistory(undo)}
+          disabled={history.past.length === 0}
+          className="w-9 h-9 rounded-lg text-slate-500 hover:bg-white transition disabled:opacity-30"
+          title="Undo (Ctrl+Z)"
+        >
+          <i className="fa-solid fa-rotate-left text-xs"></i>
+        </button>
+        <button
+          onClick={() => setHistory(redo)}
+          disabled={history.future.length === 0}
+          className="w-9 h-9 rounded-lg text-slate-500 hover:bg-white transition disabled:opacity-30"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          <i className="fa-solid fa-rotate-right text-xs"></i>
+        </button>
+        <span className="w-px h-6 bg-violet-200 mx-2"></span>
+        <span className="text-[10px] font-black text-violet-500 uppercase tracking-widest mr-1">
+          {selected ? `Add after #${selected.id}` : 'Add block'}
+        </span>
+        {(Object.keys(SHAPE_LABELS) as ShapeType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => handleAdd(type)}
+            className="text-[11px] font-bold text-violet-700 bg-white hover:bg-violet-100 px-2.5 py-1.5 rounded-lg transition border border-violet-100"
+          >
+            <i className="fa-solid fa-plus mr-1 text-[9px]"></i>{SHAPE_LABELS[type]}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-2">
+          <button onClick={onCancel} className="text-xs font-bold text-slate-500 hover:bg-white px-4 py-2 rounded-lg transition">
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(draft)}
+            disabled={problems.length > 0}
+            className="text-xs font-black text-white bg-violet-600 hover:bg-violet-700 px-4 py-2 rounded-lg transition shadow disabled:opacity-40"
+            title={problems.length > 0 ? 'Fix the listed problems first' : undefined}
+          >
+            <i className="fa-solid fa-check mr-1.5"></i> Apply Changes
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 relative overflow-hidden bg-[radial-gradient(#e2e8f0_1px,transparent_1px)] [background-size:24px_24px]">
+          <FlowchartRenderer steps={steps} activeStepId={null} selectedStepId={selectedId} onSelectStep={setSelectedId} />
+        </div>
+
+        <div className="w-80 border-l border-slate-100 bg-white flex flex-col overflow-y-auto">
+          <div className="p-6 border-b border-slate-100">
+            {selected ? (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Block #{selected.id}</span>
+                  <button
+                    onClick={() => handleDelete(selected.id)}
+                    className="text-xs font-bold text-rose-500 hover:bg-rose-50 px-2.5 py-1 rounded-lg transition"
+                  >
+                    <i className="fa-solid fa-trash-can mr-1"></i> Delete
+                  </button>
+                </div>
+                <div>
+                  <label className={labelClasses}>Shape</label>
+                  <select
+                    className={inputClasses}
+                    value={selected.type}
+                    onChange={(e) => commit(retypeStep(draft, selected.id, e.target.value as ShapeType))}
+                  >
+                    {(Object.keys(SHAPE_LABELS) as ShapeType[]).map(type => (
+                      <option key={type} value={type}>{SHAPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClasses}>Text</label>
+                  <textarea
+                    className={`${inputClasses} font-mono h-20 resize-none`}
+                    value={selected.text}
+                    onChange={(e) => commit(updateStepText(draft, selected.id, e.target.value), `text-${selected.id}`)}
+                  />
+                </div>
+                {selected.type !== 'end' && BRANCHES[selected.type === 'decision' ? 'decision' : 'other'].map(({ branch, label }) => (
+                  <div key={branch} className="grid grid-cols-[1fr_96px] gap-2">
+                    <div>
+                      <label className={labelClasses}>{label}</label>
+                      <select
+                        className={inputClasses}
+                        value={selected[branch] ?? ''}
+                        onChange={(e) => commit(setEdge(draft, selected.id, branch, e.target.value === '' ? null : Number(e.target.value)))}
+                      >
+                        <option value="">Not connected</option>
+                        {targetOptions(selected).map(s => (
+                          <option key={s.id} value={s.id}>#{s.id} {s.text.slice(0, 28)}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className={labelClasses}>Label</label>
+                      <input
+                        className={inputClasses}
+                        value={selected[`${branch}_label` as const] || ''}
+                        placeholder={branch === 'yes' ? 'Yes' : branch === 'no' ? 'No' : ''}
+                        onChange={(e) => commit(setEdgeLabel(draft, selected.id, branch, e.target.value), `label-${selected.id}-${branch}`)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs font-semibold text-slate-400 text-center py-4">
+                Click a block to edit its text, shape and connections.
+              </p>
+            )}
+          </div>
+
+          <div className="p-6 border-b border-slate-100">
+            <span className="block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3">Variables</span>
+            <div className="space-y-2">
+              {draft.variables.map((variable, i) => (
+                <div key={i} className="space-y-1.5 pb-2 border-b border-slate-50">
+                  <div className="flex items-center gap-2">
+                    <input
+                      className={`${inputClasses} font-mono`}
+                      value={variable.name}
+                      onChange={(e) => commit(renameVariable(draft, i, e.target.value), `variable-${i}`)}
+                    />
+                    <button
+                      onClick={() => commit(removeVariable(draft, i))}
+                      className="w-8 h-8 shrink-0 rounded-lg text-slate-300 hover:text-rose-500 hover:bg-rose-50 transition"
+                      title="Remove variable"
+                    >
+                      <i className="fa-solid fa-xmark text-xs"></i>
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 pr-10">
+                    <select
+                      className={inputClasses}
+                      value={variable.type}
+                      onChange={(e) => commit(setVariableType(draft, i, e.target.value as VariableType))}
+                    >
+                      {VARIABLE_TYPES.map(type => <option key={type} value={type}>{VARIABLE_TYPE_LABELS[type]}</option>)}
+                    </select>
+                    <select
+                      className={inputClasses}
+                      value={variable.role}
+                      onChange={(e) => commit(setVariableRole(draft, i, e.target.value as VariableRole))}
+                    >
+                      {VARIABLE_ROLES.map(role => <option key={role} value={role}>{role === 'input' ? 'Input' : 'Internal'}</option>)}
+                    </select>
+                  </div>
+                </div>
+              ))}
+              <form
+                className="flex items-center gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  commit(addVariable(draft, newVariable));
+                  setNewVariable('');
+                }}
+              >
+                <input
+                  className={`${inputClasses} font-mono`}
+                  value={newVariable}
+                  placeholder="New variable"
+                  onChange={(e) => setNewVariable(e.target.value)}
+                />
+                <button type="submit" className="w-8 h-8 shrink-0 rounded-lg text-violet-600 hover:bg-violet-50 transition" title="Add variable">
+                  <i className="fa-solid fa-plus text-xs"></i>
+                </button>
+              </form>
+            </div>
+          </div>
+
+          {problems.length > 0 && (
+            <div className="p-6">
+              <span className="block text-[10px] font-black text-rose-500 uppercase tracking-widest mb-3">
+                {problems.length} Problem{problems.length === 1 ? '' : 's'}
+              </span>
+              <ul className="space-y-2">
+                {problems.map((problem, i) => (
+                  <li key={i} className="text-xs font-semibold text-rose-600 flex gap-2">
+                    <i className="fa-solid fa-circle-exclamation mt-0.5"></i>
+                    <span>{problem}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlowchartEditor;
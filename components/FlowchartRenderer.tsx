@@ -1,68 +1,287 @@
 
-import React from 'react';
-import { FlowchartStep, ShapeType } from '../types';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FlowchartStep } from '../types';
+import { computeFlowLayout, LayoutEdge, LayoutNode } from '../services/flowLayout';
 
 interface Props {
   steps: FlowchartStep[];
   activeStepId: number | null;
+  previousStepId?: number | null;
   isErrorMode?: boolean;
+  // Editor mode: clicking a block selects it
+  selectedStepId?: number | null;
+  onSelectStep?: (id: number | null) => void;
+  // Stepper mode: clicking the marker beside a block toggles a breakpoint on it
+  breakpoints?: number[];
+  onToggleBreakpoint?: (id: number) => void;
+  // Linked highlight with the source image
+  hoveredStepId?: number | null;
+  onHoverStep?: (id: number | null) => void;
 }
 
-const FlowchartRenderer: React.FC<Props> = ({ steps, activeStepId, isErrorMode }) => {
-  const getShapeClasses = (type: ShapeType, id: number) => {
-    const isActive = activeStepId === id;
-    
-    let base = "relative transition-all duration-500 border-2 flex items-center justify-center p-4 text-xs font-bold text-center ";
-    
-    if (isActive) {
-      base += "bg-blue-50 border-blue-500 text-blue-900 scale-110 z-20 shadow-xl active-pulse ";
-    } else {
-      base += "bg-white border-slate-300 text-slate-700 shadow-sm ";
+interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 3;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const shapePath = (node: LayoutNode) => {
+  const left = node.x - node.width / 2;
+  const top = node.y - node.height / 2;
+  const right = left + node.width;
+  const bottom = top + node.height;
+  switch (node.type) {
+    case 'decision':
+      return `M ${node.x} ${top} L ${right} ${node.y} L ${node.x} ${bottom} L ${left} ${node.y} Z`;
+    case 'input':
+    case 'output': {
+      const slant = 16;
+      return `M ${left + slant} ${top} L ${right} ${top} L ${right - slant} ${bottom} L ${left} ${bottom} Z`;
+    }
+    default:
+      return '';
+  }
+};
+
+const edgePath = (edge: LayoutEdge) => {
+  // Orthogonal polyline with slightly rounded corners
+  const pts = edge.points;
+  let d = `M ${pts[0].x} ${pts[0].y}`;
+  for (let i = 1; i < pts.length; i++) {
+    const prev = pts[i - 1];
+    const curr = pts[i];
+    const next = pts[i + 1];
+    if (!next) {
+      d += ` L ${curr.x} ${curr.y}`;
+      continue;
     }
+    const r = Math.min(8, Math.hypot(curr.x - prev.x, curr.y - prev.y) / 2, Math.hypot(next.x - curr.x, next.y - curr.y) / 2);
+    const before = { x: curr.x - Math.sign(curr.x - prev.x) * r, y: curr.y - Math.sign(curr.y - prev.y) * r };
+    const after = { x: curr.x + Math.sign(next.x - curr.x) * r, y: curr.y + Math.sign(next.y - curr.y) * r };
+    d += ` L ${before.x} ${before.y} Q ${curr.x} ${curr.y} ${after.x} ${after.y}`;
+  }
+  return d;
+};
+
+const FlowchartRenderer: React.FC<Props> = ({
+  steps, activeStepId, previousStepId, isErrorMode, selectedStepId, onSelectStep, breakpoints, onToggleBreakpoint,
+  hoveredStepId, onHoverStep,
+}) => {
+  const layout = useMemo(() => computeFlowLayout(steps), [steps]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; originX: number; originY: number; stepId: number | null; onMarker: boolean } | null>(null);
+  const [viewport, setViewport] = useState<Viewport>({ scale: 1, x: 0, y: 0 });
+
+  const fitToScreen = useCallback(() => {
+    const el = containerRef.current;
+    if (!el || layout.width === 0) return;
+    const { width, height } = el.getBoundingClientRect();
+    const scale = clampScale(Math.min(width / layout.width, height / layout.height, 1.25));
+    setViewport({
+      scale,
+      x: (width - layout.width * scale) / 2,
+      y: Math.max(0, (height - layout.height * scale) / 2),
+    });
+  }, [layout]);
+
+  useEffect(() => {
+    fitToScreen();
+  }, [fitToScreen]);
+
+  const zoomAt = useCallback((factor: number, cx?: number, cy?: number) => {
+    const el = containerRef.current;
+    if (!el) return;
+    const rect = el.getBoundingClientRect();
+    const px = cx ?? rect.width / 2;
+    const py = cy ?? rect.height / 2;
+    setViewport(prev => {
+      const scale = clampScale(prev.scale * factor);
+      const ratio = scale / prev.scale;
+      return { scale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio };
+    });
+  }, []);
 
-    switch (type) {
-      case 'start':
-      case 'end':
-        return base + "rounded-full w-28 h-12 border-slate-400";
-      case 'process':
-        return base + "rounded-none w-36 h-14";
-      case 'input':
-      case 'output':
-        return base + "w-36 h-14 skew-x-[-20deg]";
-      case 'decision':
-        return base + "w-24 h-24 rotate-45 border-amber-400";
-      default:
-        return base;
+  // React registers wheel listeners as passive, so zooming needs a native listener to preventDefault
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? 1.1 : 1 / 1.1, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest('button')) return;
+    const stepElement = (e.target as Element).closest('[data-step-id]');
+    const stepId = stepElement ? Number(stepElement.getAttribute('data-step-id')) : null;
+    const onMarker = !!(e.target as Element).closest('[data-breakpoint-marker]');
+    dragRef.current = { x: e.clientX, y: e.clientY, originX: viewport.x, originY: viewport.y, stepId, onMarker };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setViewport(prev => ({ ...prev, x: drag.originX + e.clientX - drag.x, y: drag.originY + e.clientY - drag.y }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    // Pointer capture swallows clicks on blocks, so a press without a drag counts as one
+    if (drag && e.type === 'pointerup' && Math.hypot(e.clientX - drag.x, e.clientY - drag.y) < 4) {
+      // Only the marker beside a block toggles its breakpoint, so clicks on the block stay free for other uses
+      if (onToggleBreakpoint && drag.onMarker && drag.stepId != null) onToggleBreakpoint(drag.stepId);
+      else if (onSelectStep) onSelectStep(drag.stepId);
     }
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const isActiveEdge = (edge: LayoutEdge) =>
+    previousStepId != null && activeStepId != null && edge.from === previousStepId && edge.to === activeStepId;
+
+  const activeColor = isErrorMode ? '#f43f5e' : '#3b82f6';
+
+  const renderNode = (node: LayoutNode) => {
+    const isActive = activeStepId === node.id;
+    const isSelected = selectedStepId === node.id;
+    const isHovered = hoveredStepId === node.id;
+    const hasBreakpoint = !!breakpoints?.includes(node.id);
+    const stroke = isActive ? activeColor : node.type === 'decision' ? '#fbbf24' : node.type === 'start' || node.type === 'end' ? '#94a3b8' : '#cbd5e1';
+    const fill = isActive ? (isErrorMode ? '#fff1f2' : '#eff6ff') : '#ffffff';
+    const shapeProps = { fill, stroke, strokeWidth: isActive ? 3 : 2, className: 'transition-all duration-500' };
+    const firstLineY = node.y - ((node.lines.length - 1) * 14) / 2;
+
+    return (
+      <g
+        key={node.id}
+        data-step-id={node.id}
+        onMouseEnter={onHoverStep && (() => onHoverStep(node.id))}
+        onMouseLeave={onHoverStep && (() => onHoverStep(null))}
+        className={onSelectStep ? 'group cursor-pointer' : 'group'}
+        style={{ filter: isActive ? `drop-shadow(0 8px 16px ${activeColor}55)` : 'drop-shadow(0 1px 2px rgba(15,23,42,0.08))' }}
+      >
+        {isHovered && (
+          <rect
+            x={node.x - node.width / 2 - 8} y={node.y - node.height / 2 - 8}
+            width={node.width + 16} height={node.height + 16} rx={12}
+            fill="#fef3c7" stroke="#f59e0b" strokeWidth={2}
+          />
+        )}
+        {node.type === 'process' ? (
+          <rect x={node.x - node.width / 2} y={node.y - node.height / 2} width={node.width} height={node.height} rx={4} {...shapeProps} />
+        ) : node.type === 'start' || node.type === 'end' ? (
+          <rect x={node.x - node.width / 2} y={node.y - node.height / 2} width={node.width} height={node.height} rx={node.height / 2} {...shapeProps} />
+        ) : (
+          <path d={shapePath(node)} {...shapeProps} />
+        )}
+        {isActive && (
+          <rect
+            x={node.x - node.width / 2 - 6} y={node.y - node.height / 2 - 6}
+            width={node.width + 12} height={node.height + 12} rx={12}
+            fill="none" stroke={activeColor} strokeWidth={2} className="animate-pulse" opacity={0.4}
+          />
+        )}
+        {isSelected && (
+          <rect
+            x={node.x - node.width / 2 - 6} y={node.y - node.height / 2 - 6}
+            width={node.width + 12} height={node.height + 12} rx={12}
+            fill="none" stroke="#8b5cf6" strokeWidth={2} strokeDasharray="6 4"
+          />
+        )}
+        <text textAnchor="middle" className="text-[11px] font-bold" fill={isActive ? (isErrorMode ? '#881337' : '#1e3a8a') : '#334155'}>
+          {node.lines.map((line, i) => (
+            <tspan key={i} x={node.x} y={firstLineY + i * 14} dominantBaseline="middle">{line}</tspan>
+          ))}
+        </text>
+        <text x={node.x - node.width / 2 - 6} y={node.y - node.height / 2 + 4} textAnchor="end" className="text-[9px] font-mono" fill="#94a3b8">
+          #{node.id}
+        </text>
+        {onToggleBreakpoint && (
+          <circle
+            data-breakpoint-marker
+            cx={node.x - node.width / 2 - 14} cy={node.y + 4} r={6}
+            fill={hasBreakpoint ? '#ef4444' : 'white'} stroke={hasBreakpoint ? '#b91c1c' : '#fca5a5'} strokeWidth={1.5}
+            className={`cursor-pointer ${hasBreakpoint ? '' : 'opacity-0 group-hover:opacity-100 transition-opacity'}`}
+          >
+            <title>{hasBreakpoint ? 'Remove breakpoint' : 'Set breakpoint'}</title>
+          </circle>
+        )}
+      </g>
+    );
   };
 
-  const renderContent = (step: FlowchartStep) => {
-    const contentClasses = step.type === 'decision' ? '-rotate-45 block px-1' : (step.type === 'input' || step.type === 'output' ? 'skew-x-[20deg]' : '');
-    return <span className={contentClasses}>{step.text}</span>;
+  const renderEdge = (edge: LayoutEdge) => {
+    const active = isActiveEdge(edge);
+    const color = active ? activeColor : edge.branch === 'no' ? '#fda4af' : edge.branch === 'yes' ? '#6ee7b7' : '#cbd5e1';
+    const marker = active ? 'url(#arrow-active)' : edge.branch === 'no' ? 'url(#arrow-no)' : edge.branch === 'yes' ? 'url(#arrow-yes)' : 'url(#arrow)';
+    return (
+      <g key={`${edge.from}-${edge.to}-${edge.branch}`}>
+        <path
+          d={edgePath(edge)} fill="none" stroke={color} strokeWidth={active ? 3 : 2}
+          strokeDasharray={edge.isBackEdge && !active ? '6 4' : undefined}
+          markerEnd={marker} className="transition-all duration-300"
+        />
+        {edge.label && edge.labelAt && (
+          <text
+            x={edge.labelAt.x} y={edge.labelAt.y} textAnchor="middle"
+            className="text-[10px] font-black uppercase"
+            fill={active ? activeColor : edge.branch === 'no' ? '#e11d48' : edge.branch === 'yes' ? '#059669' : '#64748b'}
+          >
+            {edge.label}
+          </text>
+        )}
+      </g>
+    );
   };
 
+  const markers: [string, string][] = [['arrow', '#cbd5e1'], ['arrow-yes', '#6ee7b7'], ['arrow-no', '#fda4af'], ['arrow-active', activeColor]];
+
   return (
-    <div className="flex flex-col items-center space-y-10 py-12 px-8 min-w-full">
-      {steps.map((step, idx) => (
-        <React.Fragment key={step.id}>
-          <div className="flex flex-col items-center">
-            <div className={getShapeClasses(step.type, step.id)}>
-              {renderContent(step)}
-              {step.type === 'decision' && (
-                <div className="absolute -right-12 top-1/2 -translate-y-1/2 -rotate-45 text-[10px] text-slate-400 font-mono">
-                  [Yes/No]
-                </div>
-              )}
-            </div>
-          </div>
-          
-          {idx < steps.length - 1 && (
-            <div className="relative h-10 w-0.5 bg-slate-300">
-              <div className="absolute -bottom-1 -left-[5px] border-t-8 border-t-slate-300 border-x-4 border-x-transparent"></div>
-            </div>
-          )}
-        </React.Fragment>
-      ))}
+    <div
+      ref={containerRef}
+      className="absolute inset-0 overflow-hidden cursor-grab active:cursor-grabbing touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <svg className="w-full h-full">
+        <defs>
+          {markers.map(([id, color]) => (
+            <marker key={id} id={id} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+        <g transform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.scale})`}>
+          {layout.edges.filter(e => !isActiveEdge(e)).map(renderEdge)}
+          {layout.edges.filter(isActiveEdge).map(renderEdge)}
+          {layout.nodes.map(renderNode)}
+        </g>
+      </svg>
+
+      <div className="absolute right-4 bottom-4 flex items-center gap-1 bg-white/90 backdrop-blur rounded-xl border border-slate-200 shadow-lg p-1">
+        <button onClick={() => zoomAt(1 / 1.2)} className="w-8 h-8 rounded-lg text-slate-500 hover:bg-slate-100 transition" title="Zoom out">
+          <i className="fa-solid fa-minus text-xs"></i>
+        </button>
+        <span className="w-12 text-center text-[10px] font-black text-slate-500">{Math.round(viewport.scale * 100)}%</span>
+        <button onClick={() => zoomAt(1.2)} className="w-8 h-8 rounded-lg text-slate-500 hover:bg-slate-100 transition" title="Zoom in">
+          <i className="fa-solid fa-plus text-xs"></i>
+        </button>
+        <button onClick={fitToScreen} className="w-8 h-8 rounded-lg text-indigo-600 hover:bg-indigo-50 transition" title="Fit to screen">
+          <i className="fa-solid fa-expand text-xs"></i>
+        </button>
+      </div>
     </div>
   );
 };
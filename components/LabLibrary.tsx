@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LabRecord } from '../types';
+import { createLabId, deleteLab, listLabs, saveLab } from '../services/labLibrary';
+import { SAMPLE_LABS, sampleLabRecord } from '../services/sampleLabs';
+import { labFileName, parseLabFile, serializeLab, LAB_FILE_EXTENSION } from '../services/labFile';
+import { downloadTextFile } from '../services/download';
+
+interface Props {
+  currentLabId: string | null;
+  onOpen: (lab: LabRecord) => void;
+  onClose: () => void;
+}
+
+const formatDate = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const LabLibrary: React.FC<Props> = ({ currentLabId, onOpen, onClose }) => {
+  const [labs, setLabs] = useState<LabRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    listLabs()
+      .then(setLabs)
+      .catch(err => {
+        setLabs([]);
+        setError(err?.message || String(err));
+      });
+  };
+
+  useEffect(refresh, []);
+
+  const handleDelete = async (lab: LabRecord) => {
+    if (!window.confirm(`Delete "${lab.title}" from the library?`)) return;
+    try {
+      await deleteLab(lab.id);
+      refresh();
+    } catch (err: any) {
+      setError(err?.message || String(err));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const lab = await saveLab(parseLabFile(await file.text()));
+      onOpen(lab);
+    } catch (err: any) {
+      setError(err?.message || String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-8" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <i className="fa-solid fa-folder-open text-indigo-500"></i>
+            Lab Library
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="text-xs font-bold text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg transition border border-indigo-100"
+            >
+              <i className="fa-solid fa-file-import mr-1.5"></i> Import Lab File
+            </button>
+            <input type="file" ref={importInputRef} hidden accept={`${LAB_FILE_EXTENSION},application/json`} onChange={handleImport} />
+            <button onClick={onClose} className="w-8 h-8 rounded-lg text-slate-400 hover:bg-slate-100 transition">
+              <i className="fa-solid fa-xmark"></i>
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-xl p-4 bg-rose-50 border-2 border-rose-100 text-rose-700 text-xs font-bold flex gap-3">
+            <i className="fa-solid fa-circle-exclamation mt-0.5"></i>
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="mb-6">
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Sample Labs</h3>
+          <div className="grid grid-cols-3 gap-3">
+            {SAMPLE_LABS.map(sample => (
+              <button
+                key={sample.id}
+                onClick={() => onOpen(sampleLabRecord(sample, createLabId()))}
+                className="p-4 rounded-2xl border-2 border-slate-100 hover:border-indigo-200 hover:bg-indigo-50/50 text-left transition"
+              >
+                <div className="font-black text-slate-700 text-sm">{sample.title}</div>
+                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mt-1">Works offline in replay</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Saved Labs</h3>
+        {labs === null ? (
+          <p className="text-xs font-semibold text-slate-400 text-center py-8">
+            <i className="fa-solid fa-spinner animate-spin mr-2"></i> Loading saved labs...
+          </p>
+        ) : labs.length === 0 ? (
+          <p className="text-xs font-semibold text-slate-400 text-center py-8">
+            Labs are saved here automatically once a flowchart has been identified.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {labs.map(lab => (
+              <div
+                key={lab.id}
+                className={`p-4 rounded-2xl border-2 flex items-center gap-4 ${lab.id === currentLabId ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100'}`}
+              >
+                <div className="w-12 h-12 rounded-xl bg-slate-100 flex items-center justify-center overflow-hidden shrink-0">
+                  {lab.images.length > 0 ? (
+                    <img src={lab.images[0]} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <i className="fa-solid fa-align-left text-slate-300"></i>
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-black text-slate-700 truncate">{lab.title}</div>
+                  <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mt-1 flex flex-wrap gap-x-3">
+                    <span>Updated {formatDate(lab.updatedAt)}</span>
+                    {lab.parsedData && <span className="text-purple-500">{lab.parsedData.digital_flowchart.length} blocks</span>}
+                    {lab.simulationData && <span className="text-emerald-500">Dry run saved</span>}
+                    {lab.testCases.length > 0 && <span className="text-teal-500">{lab.testCases.length} cases</span>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => onOpen(lab)}
+                    className="text-xs font-bold text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg transition"
+                  >
+                    Open
+                  </button>
+                  <button
+                    onClick={() => downloadTextFile(labFileName(lab), serializeLab(lab), 'application/json')}
+                    className="w-8 h-8 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition"
+                    title="Export lab file"
+                  >
+                    <i className="fa-solid fa-file-export text-xs"></i>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(lab)}
+                    className="w-8 h-8 rounded-lg text-slate-300 hover:text-rose-500 hover:bg-rose-50 transition"
+                    title="Delete lab"
+                  >
+                    <i className="fa-solid fa-trash-can text-xs"></i>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LabLibrary;
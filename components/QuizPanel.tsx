@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { DryRunStep, FlowchartStep } from '../types';
+import { QuizFieldResult, QuizStepResult, gradePrediction, quizQuestions, quizScore } from '../services/quiz';
+
+interface Props {
+  steps: DryRunStep[];
+  flowchart: FlowchartStep[];
+  // Moves the trace to a step, revealing it
+  onReveal: (index: number) => void;
+  onExit: () => void;
+}
+
+const shown = (value: unknown) => (value === undefined || value === '' ? '—' : typeof value === 'string' ? value : JSON.stringify(value));
+
+const QuizPanel: React.FC<Props> = ({ steps, flowchart, onReveal, onExit }) => {
+  const questions = useMemo(() => quizQuestions(steps), [steps]);
+  const [position, setPosition] = useState(0);
+  const [stepId, setStepId] = useState<number | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [feedback, setFeedback] = useState<QuizStepResult | null>(null);
+  const [results, setResults] = useState<QuizStepResult[]>([]);
+
+  const question = questions[position];
+  const blockText = (id: unknown) => {
+    const block = flowchart.find(s => s.id === id);
+    return block ? `#${block.id} ${block.text}` : shown(id);
+  };
+  const fieldLabel = (field: QuizFieldResult) => (field.field === 'block' ? 'Next block' : field.field);
+  const fieldValue = (field: QuizFieldResult, value: unknown) => (field.field === 'block' ? blockText(value) : shown(value));
+
+  const submit = () => {
+    const result = gradePrediction(steps, question, { stepId, values });
+    setFeedback(result);
+    setResults(prev => [...prev, result]);
+    onReveal(question.stepIndex);
+  };
+
+  const next = () => {
+    setFeedback(null);
+    setStepId(null);
+    setValues({});
+    setPosition(prev => prev + 1);
+  };
+
+  const restart = () => {
+    setResults([]);
+    setFeedback(null);
+    setStepId(null);
+    setValues({});
+    setPosition(0);
+    onReveal(0);
+  };
+
+  const inputClasses = 'px-3 py-2 bg-white border-2 border-slate-100 rounded-xl outline-none focus:border-indigo-400 transition text-xs font-mono text-slate-700';
+
+  if (!question) {
+    const score = quizScore(results);
+    const wrong = results.filter(r => !r.correct);
+    return (
+      <div className="border-t border-slate-100 bg-white px-6 py-4 space-y-3">
+        <div className="flex items-center gap-4">
+          <i className="fa-solid fa-graduation-cap text-indigo-500"></i>
+          <span className="text-sm font-black text-slate-700">
+            Quiz complete: {score.earned} / {score.possible} predictions correct ({score.percent}%)
+          </span>
+          <div className="ml-auto flex gap-2">
+            <button onClick={restart} className="px-4 py-2 rounded-xl text-xs font-bold text-indigo-600 hover:bg-indigo-50 border border-indigo-100 transition">
+              <i className="fa-solid fa-rotate-left mr-1.5"></i> Retry
+            </button>
+            <button onClick={onExit} className="px-4 py-2 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100 border border-slate-200 transition">
+              Exit Quiz
+            </button>
+          </div>
+        </div>
+        {wrong.length === 0 ? (
+          <p className="text-xs font-semibold text-emerald-600">Every step predicted correctly.</p>
+        ) : (
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {wrong.map(result => (
+              <button
+                key={result.stepIndex}
+                onClick={() => onReveal(result.stepIndex)}
+                className="shrink-0 w-56 text-left px-3 py-2 rounded-xl border-2 border-rose-100 bg-rose-50/50 hover:border-rose-200 transition"
+              >
+                <span className="text-[10px] font-black uppercase text-rose-500">Step {result.stepIndex + 1}</span>
+                {result.fields.filter(f => !f.correct).map(field => (
+                  <p key={field.field} className="text-[11px] font-mono text-slate-600 truncate">
+                    {fieldLabel(field)}: {fieldValue(field, field.predicted)} → {fieldValue(field, field.expected)}
+                  </p>
+                ))}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t border-slate-100 bg-white px-6 py-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <i className="fa-solid fa-graduation-cap text-indigo-500"></i>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          Predict step {question.stepIndex + 1} · question {position + 1} of {questions.length}
+        </span>
+        <span className="text-[10px] font-bold text-indigo-600">
+          {quizScore(results).earned} / {quizScore(results).possible} correct
+        </span>
+        <button onClick={onExit} className="ml-auto text-xs font-bold text-slate-400 hover:text-slate-600 transition">
+          Exit Quiz
+        </button>
+      </div>
+
+      {feedback ? (
+        <div className="flex items-center gap-4">
+          <div className="flex-1 flex flex-wrap gap-2">
+            {feedback.fields.map(field => (
+              <span
+                key={field.field}
+                className={`px-3 py-1.5 rounded-lg border text-[11px] font-mono ${
+                  field.correct ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-rose-50 border-rose-100 text-rose-700'
+                }`}
+              >
+                <i className={`fa-solid ${field.correct ? 'fa-check' : 'fa-xmark'} mr-1.5`}></i>
+                {fieldLabel(field)}: {fieldValue(field, field.expected)}
+                {!field.correct && <span className="opacity-60"> (you said {fieldValue(field, field.predicted)})</span>}
+              </span>
+            ))}
+          </div>
+          <button onClick={next} autoFocus className="px-6 py-2.5 rounded-xl bg-indigo-600 text-white text-xs font-black hover:bg-indigo-700 transition">
+            {position === questions.length - 1 ? 'See Score' : 'Next Question'} <i className="fa-solid fa-chevron-right ml-1.5 text-[10px]"></i>
+          </button>
+        </div>
+      ) : (
+        <form
+          className="flex flex-wrap items-end gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Next block</span>
+            <select
+              className={inputClasses}
+              value={stepId ?? ''}
+              onChange={(e) => setStepId(e.target.value === '' ? null : Number(e.target.value))}
+            >
+              <option value="">Choose…</option>
+              {flowchart.map(block => (
+                <option key={block.id} value={block.id}>#{block.id} {block.text}</option>
+              ))}
+            </select>
+          </label>
+          {question.changed.map(name => (
+            <label key={name} className="flex flex-col gap-1">
+              <span className="text-[10px] font-black text-slate-400 uppercase">New {name}</span>
+              <input
+                className={`${inputClasses} w-32`}
+                value={values[name] ?? ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+              />
+            </label>
+          ))}
+          {question.changed.length === 0 && (
+            <p className="text-[11px] text-slate-400 italic pb-2.5">No variable changes at this step.</p>
+          )}
+          <button type="submit" className="ml-auto px-6 py-2.5 rounded-xl bg-indigo-600 text-white text-xs font-black hover:bg-indigo-700 transition">
+            Check Prediction
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default QuizPanel;
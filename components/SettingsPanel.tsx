@@ -0,0 +1,193 @@
+
+import React, { useEffect, useState } from 'react';
+import { AISettings, AITask, ProviderId, RecordingMode, TaskSettings } from '../types';
+import { PROVIDER_LABELS, RECORDING_MODE_LABELS, defaultTaskSettings } from '../services/settingsStore';
+import { clearRecordings, countRecordings } from '../services/recordings';
+
+interface Props {
+  settings: AISettings;
+  onSave: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+const TASK_LABELS: Record<AITask, string> = {
+  parse: 'Flowchart parsing',
+  simulate: 'Dry-run simulation',
+};
+
+const inputClasses = 'w-full px-4 py-2.5 bg-slate-50 border-2 border-slate-100 rounded-xl outline-none focus:border-indigo-400 transition text-sm font-semibold text-black';
+const labelClasses = 'block text-[10px] font-black text-slate-500 uppercase mb-1.5 ml-1';
+
+const RECORDING_HINTS: Record<RecordingMode, string> = {
+  off: 'Every parse and dry run calls the provider.',
+  record: 'Calls the provider and stores each response under a hash of the description, image and inputs.',
+  replay: 'Answers only from stored responses and the bundled sample labs, with no network at all.',
+};
+
+const SettingsPanel: React.FC<Props> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AISettings>(settings);
+  const [recordingCount, setRecordingCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    countRecordings().then(setRecordingCount).catch(() => setRecordingCount(null));
+  }, []);
+
+  const handleClearRecordings = async () => {
+    if (!window.confirm('Delete every recorded AI response? The bundled sample labs keep working.')) return;
+    await clearRecordings();
+    setRecordingCount(0);
+  };
+
+  const selectProvider = (provider: ProviderId) => {
+    setDraft(prev => ({ ...prev, provider, tasks: defaultTaskSettings(provider) }));
+  };
+
+  const updateTask = (task: AITask, patch: Partial<TaskSettings>) => {
+    setDraft(prev => ({ ...prev, tasks: { ...prev.tasks, [task]: { ...prev.tasks[task], ...patch } } }));
+  };
+
+  // Empty numeric fields mean "use the provider's default"
+  const parseOptional = (raw: string) => (raw.trim() === '' || isNaN(Number(raw)) ? null : Number(raw));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-xl max-h-[90vh] overflow-y-auto p-8" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <i className="fa-solid fa-sliders text-indigo-500"></i>
+            AI Provider Settings
+          </h2>
+          <button onClick={onClose} className="w-8 h-8 rounded-lg text-slate-400 hover:bg-slate-100 transition">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        <label className={labelClasses}>Provider</label>
+        <div className="flex bg-slate-100 p-1 rounded-lg mb-6">
+          {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+            <button
+              key={id}
+              onClick={() => selectProvider(id)}
+              className={`flex-1 px-3 py-2 text-xs font-bold rounded-md transition ${draft.provider === id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {PROVIDER_LABELS[id]}
+            </button>
+          ))}
+        </div>
+
+        <label className={labelClasses}>Record / Replay</label>
+        <div className="flex bg-slate-100 p-1 rounded-lg mb-2">
+          {(Object.keys(RECORDING_MODE_LABELS) as RecordingMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setDraft(prev => ({ ...prev, recording: mode }))}
+              className={`flex-1 px-3 py-2 text-xs font-bold rounded-md transition ${draft.recording === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {RECORDING_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center justify-between gap-3 mb-6 ml-1">
+          <p className="text-[11px] font-semibold text-slate-500">{RECORDING_HINTS[draft.recording]}</p>
+          {recordingCount !== null && (
+            <button
+              onClick={handleClearRecordings}
+              disabled={recordingCount === 0}
+              className="shrink-0 text-[11px] font-bold text-slate-400 hover:text-rose-500 transition disabled:opacity-40"
+            >
+              Clear {recordingCount} recorded
+            </button>
+          )}
+        </div>
+
+        {draft.provider === 'openai' && (
+          <div className="grid grid-cols-1 gap-4 mb-6">
+            <div>
+              <label className={labelClasses}>Base URL</label>
+              <input
+                className={inputClasses}
+                value={draft.baseUrl}
+                onChange={(e) => setDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+                placeholder="http://localhost:11434/v1"
+              />
+            </div>
+            <div>
+              <label className={labelClasses}>API Key (optional for local servers)</label>
+              <input
+                type="password"
+                className={inputClasses}
+                value={draft.apiKey}
+                onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+              />
+            </div>
+          </div>
+        )}
+
+        {draft.provider === 'stub' ? (
+          <p className="text-xs font-semibold text-slate-500 bg-slate-50 rounded-xl p-4 mb-6">
+            The offline stub never calls a model: parsing returns a sample factorial flowchart and dry runs come from the local interpreter.
+          </p>
+        ) : (
+          <div className="space-y-5 mb-6">
+            {(Object.keys(TASK_LABELS) as AITask[]).map(task => (
+              <div key={task} className="p-5 rounded-2xl border-2 border-slate-100">
+                <h3 className="text-xs font-black text-slate-700 uppercase tracking-widest mb-4">{TASK_LABELS[task]}</h3>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="col-span-3">
+                    <label className={labelClasses}>Model</label>
+                    <input
+                      className={inputClasses}
+                      value={draft.tasks[task].model}
+                      onChange={(e) => updateTask(task, { model: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClasses}>Temperature</label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      max="2"
+                      className={inputClasses}
+                      value={draft.tasks[task].temperature ?? ''}
+                      onChange={(e) => updateTask(task, { temperature: parseOptional(e.target.value) })}
+                      placeholder="default"
+                    />
+                  </div>
+                  {draft.provider === 'gemini' && (
+                    <div className="col-span-2">
+                      <label className={labelClasses}>Thinking Budget (tokens)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1024"
+                        className={inputClasses}
+                        value={draft.tasks[task].thinkingBudget ?? ''}
+                        onChange={(e) => updateTask(task, { thinkingBudget: parseOptional(e.target.value) })}
+                        placeholder="default"
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100 transition">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-6 py-2.5 rounded-xl text-sm font-black bg-slate-900 text-white hover:bg-black active:scale-95 transition shadow-lg"
+          >
+            Save Settings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { FlowchartStep, SourceLanguage } from '../types';
+import { SOURCE_LANGUAGE_LABELS, stepAtLine } from '../services/sourceCode';
+import CodeEditor from './CodeEditor';
+
+interface Props {
+  code: string;
+  language: SourceLanguage;
+  steps: FlowchartStep[];
+  activeStepId: number | null;
+  hoveredStepId: number | null;
+  onHoverStep: (id: number | null) => void;
+  onClose: () => void;
+}
+
+const SourceCodeView: React.FC<Props> = ({ code, language, steps, activeStepId, hoveredStepId, onHoverStep, onClose }) => {
+  const linesOf = (id: number | null) => steps.find(s => s.id === id)?.lines ?? null;
+  const unmapped = steps.filter(s => !s.lines).length;
+
+  return (
+    <div className="w-[28rem] bg-slate-900 border-r border-slate-800 flex flex-col">
+      <div className="px-4 py-3 border-b border-slate-800 flex items-center bg-slate-950">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Your {SOURCE_LANGUAGE_LABELS[language]} Code</span>
+        <button onClick={onClose} className="ml-auto w-8 h-8 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition" title="Close">
+          <i className="fa-solid fa-xmark text-xs"></i>
+        </button>
+      </div>
+
+      <CodeEditor
+        value={code}
+        language={language}
+        activeLines={linesOf(activeStepId)}
+        hoveredLines={linesOf(hoveredStepId)}
+        onHoverLine={(line) => onHoverStep(line == null ? null : stepAtLine(steps, line)?.id ?? null)}
+        className="flex-1"
+      />
+
+      {unmapped > 0 && (
+        <p className="px-4 py-2 border-t border-slate-800 text-[11px] font-semibold text-slate-500">
+          {unmapped} block{unmapped === 1 ? ' was' : 's were'} not matched to lines of the code.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SourceCodeView;
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { FlowchartStep } from '../types';
+
+interface Props {
+  images: string[];
+  steps: FlowchartStep[];
+  activeStepId: number | null;
+  hoveredStepId: number | null;
+  onHoverStep: (id: number | null) => void;
+  onClose: () => void;
+}
+
+const SourceImageView: React.FC<Props> = ({ images, steps, activeStepId, hoveredStepId, onHoverStep, onClose }) => {
+  const [page, setPage] = useState(0);
+  const located = steps.filter(s => s.region);
+  const onPage = located.filter(s => s.region!.page === page);
+  const unlocated = steps.length - located.length;
+
+  // Turn to the page where the active or hovered block was drawn
+  const showPageOf = (id: number | null) => {
+    const region = steps.find(s => s.id === id)?.region;
+    if (region && region.page < images.length) setPage(region.page);
+  };
+  useEffect(() => showPageOf(activeStepId), [activeStepId]);
+  useEffect(() => showPageOf(hoveredStepId), [hoveredStepId]);
+
+  useEffect(() => {
+    if (page >= images.length) setPage(0);
+  }, [images.length]);
+
+  return (
+    <div className="w-[28rem] bg-slate-50 border-r border-slate-100 flex flex-col">
+      <div className="px-4 py-3 border-b border-slate-100 flex items-center gap-1 bg-white">
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mr-2">Your Drawing</span>
+        {images.length > 1 && images.map((_, i) => (
+          <button
+            key={i}
+            onClick={() => setPage(i)}
+            className={`w-7 h-7 text-[10px] font-black rounded-md transition ${page === i ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+          >
+            {i + 1}
+          </button>
+        ))}
+        <button onClick={onClose} className="ml-auto w-8 h-8 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition" title="Close">
+          <i className="fa-solid fa-xmark text-xs"></i>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        <div className="relative">
+          <img src={images[page]} alt={`Page ${page + 1} of the flowchart`} className="block w-full rounded-lg shadow-sm" />
+          {onPage.map(step => {
+            const region = step.region!;
+            const isActive = step.id === activeStepId;
+            const isHovered = step.id === hoveredStepId;
+            return (
+              <div
+                key={step.id}
+                onMouseEnter={() => onHoverStep(step.id)}
+                onMouseLeave={() => onHoverStep(null)}
+                title={`#${step.id} ${step.text}`}
+                className={`absolute rounded-md border-2 cursor-pointer transition-all ${
+                  isHovered
+                    ? 'border-amber-500 bg-amber-300/30'
+                    : isActive
+                      ? 'border-blue-500 bg-blue-400/20 shadow-[0_0_0_4px_rgba(59,130,246,0.25)]'
+                      : 'border-indigo-300/60 hover:border-amber-400'
+                }`}
+                style={{
+                  left: `${region.x * 100}%`,
+                  top: `${region.y * 100}%`,
+                  width: `${region.width * 100}%`,
+                  height: `${region.height * 100}%`,
+                }}
+              >
+                <span className={`absolute -top-2 -left-2 px-1 rounded text-[9px] font-mono font-bold text-white ${
+                  isHovered ? 'bg-amber-500' : isActive ? 'bg-blue-500' : 'bg-indigo-400/80'
+                }`}>
+                  #{step.id}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+        {unlocated > 0 && (
+          <p className="text-[11px] font-semibold text-slate-400 mt-3">
+            {unlocated} block{unlocated === 1 ? ' was' : 's were'} not located on the drawing.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SourceImageView;
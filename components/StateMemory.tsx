@@ -0,0 +1,173 @@
+import React, { useMemo } from 'react';
+import { FlowchartStep, VariableSpec } from '../types';
+import { MemoryLayout, MemoryPointer, findIndexPointers, layoutValue, sameMemoryValue } from '../services/memoryView';
+import { variableNames } from '../services/variableTypes';
+
+interface Props {
+  state: Record<string, any>;
+  previousState: Record<string, any> | null;
+  steps: FlowchartStep[];
+  variables: VariableSpec[];
+}
+
+const cellText = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const cellClasses = (changed: boolean) =>
+  `min-w-[2.5rem] h-10 px-2 rounded-lg border flex items-center justify-center font-mono font-bold text-sm transition-all duration-500 ${
+    changed ? 'bg-amber-500/10 border-amber-500/60 text-amber-400' : 'bg-slate-800 border-slate-700 text-white'
+  }`;
+
+const PointerLabels: React.FC<{ pointers: MemoryPointer[]; index: number; arrow: string }> = ({ pointers, index, arrow }) => {
+  const here = pointers.filter(p => p.index === index);
+  if (here.length === 0) return null;
+  return (
+    <span className="text-[9px] font-black text-sky-400 font-mono whitespace-nowrap">
+      <i className={`fa-solid ${arrow} mr-0.5`}></i>{here.map(p => p.name).join(',')}
+    </span>
+  );
+};
+
+const Empty: React.FC = () => <span className="text-slate-500 text-xs italic">empty</span>;
+
+const MemoryValue: React.FC<{ layout: MemoryLayout; changed: boolean }> = ({ layout, changed }) => {
+  switch (layout.kind) {
+    case 'scalar':
+      return (
+        <div className={`bg-slate-800 rounded-2xl p-5 border transition-all duration-500 ${
+          changed ? 'border-amber-500/50 shadow-[0_0_20px_rgba(245,158,11,0.05)]' : 'border-slate-700'
+        }`}>
+          <span className={`font-mono font-bold text-2xl block truncate ${changed ? 'text-amber-400' : 'text-white'}`}>
+            {JSON.stringify(layout.value)}
+          </span>
+        </div>
+      );
+
+    case 'array':
+      if (layout.items.length === 0) return <Empty />;
+      return (
+        <div className="flex flex-wrap gap-1.5">
+          {layout.items.map((item, i) => (
+            <div key={i} className="flex flex-col items-center gap-0.5">
+              <div className={cellClasses(layout.changed[i])}>{cellText(item)}</div>
+              <span className="text-[9px] font-bold text-slate-500">{i}</span>
+              <PointerLabels pointers={layout.pointers} index={i} arrow="fa-arrow-up" />
+            </div>
+          ))}
+        </div>
+      );
+
+    case 'grid': {
+      const width = Math.max(...layout.rows.map(row => row.length));
+      const focused = (r: number, c: number) =>
+        layout.rowPointers.some(p => p.index === r) && layout.columnPointers.some(p => p.index === c);
+      return (
+        <div className="overflow-x-auto">
+          <table className="border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th></th>
+                {Array.from({ length: width }, (_, c) => (
+                  <th key={c} className="align-bottom">
+                    <div className="flex flex-col items-center">
+                      <PointerLabels pointers={layout.columnPointers} index={c} arrow="fa-arrow-down" />
+                      <span className="text-[9px] font-bold text-slate-500">{c}</span>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {layout.rows.map((row, r) => (
+                <tr key={r}>
+                  <th className="pr-1 text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <PointerLabels pointers={layout.rowPointers} index={r} arrow="fa-arrow-right" />
+                      <span className="text-[9px] font-bold text-slate-500">{r}</span>
+                    </div>
+                  </th>
+                  {row.map((item, c) => (
+                    <td key={c}>
+                      <div className={`${cellClasses(layout.changed[r][c])} ${focused(r, c) ? 'ring-2 ring-sky-400' : ''}`}>{cellText(item)}</div>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+
+    case 'stack':
+      if (layout.items.length === 0) return <Empty />;
+      return (
+        <div className="flex flex-col gap-1 border-x-2 border-b-2 border-slate-700 rounded-b-xl p-1.5">
+          {layout.items.map((item, i) => ({ item, i })).reverse().map(({ item, i }) => (
+            <div key={i} className="flex items-center gap-2">
+              <div className={`${cellClasses(layout.changed[i])} flex-1`}>{cellText(item)}</div>
+              <span className="w-8 text-[9px] font-black text-sky-400 uppercase">{i === layout.items.length - 1 ? 'top' : ''}</span>
+            </div>
+          ))}
+        </div>
+      );
+
+    case 'queue':
+      if (layout.items.length === 0) return <Empty />;
+      return (
+        <div className="flex flex-wrap gap-1.5">
+          {layout.items.map((item, i) => (
+            <div key={i} className="flex flex-col items-center gap-0.5">
+              <div className={cellClasses(layout.changed[i])}>{cellText(item)}</div>
+              <span className="text-[9px] font-black text-sky-400 uppercase">
+                {i === 0 ? 'front' : i === layout.items.length - 1 ? 'rear' : ' '}
+              </span>
+            </div>
+          ))}
+        </div>
+      );
+
+    case 'object':
+      if (layout.entries.length === 0) return <Empty />;
+      return (
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 divide-y divide-slate-700">
+          {layout.entries.map(entry => (
+            <div key={entry.key} className="flex items-center justify-between gap-3 px-4 py-2 font-mono text-xs">
+              <span className="text-slate-400 font-bold">{entry.key}</span>
+              <span className={`font-bold truncate ${entry.changed ? 'text-amber-400' : 'text-white'}`}>{JSON.stringify(entry.value)}</span>
+            </div>
+          ))}
+        </div>
+      );
+  }
+};
+
+const StateMemory: React.FC<Props> = ({ state, previousState, steps, variables }) => {
+  const pointers = useMemo(() => findIndexPointers(steps, variableNames(variables)), [steps, variables]);
+
+  return (
+    <>
+      {Object.entries(state).map(([key, val]) => {
+        const prevVal = previousState ? previousState[key] : undefined;
+        const hasChanged = prevVal !== undefined && !sameMemoryValue(prevVal, val);
+        const layout = layoutValue(key, val, prevVal, state, pointers);
+
+        return (
+          <div key={key} className="group">
+            <div className="flex items-center justify-between mb-2 px-1">
+              <span className="text-slate-400 font-mono text-xs font-bold">
+                {key}
+                {layout.kind !== 'scalar' && <span className="ml-2 text-[9px] text-slate-600 uppercase tracking-widest">{layout.kind}</span>}
+              </span>
+              {hasChanged && (
+                <span className="text-[9px] text-amber-400 font-black uppercase animate-bounce">Changed!</span>
+              )}
+            </div>
+            <MemoryValue layout={layout} changed={hasChanged} />
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default StateMemory;
@@ -0,0 +1,104 @@
+
+import React from 'react';
+import { TestCase, TestCaseResult } from '../types';
+
+interface Props {
+  cases: TestCase[];
+  results: Record<string, TestCaseResult>;
+  onOpen: (caseId: string) => void;
+}
+
+const TestResultsTable: React.FC<Props> = ({ cases, results, onOpen }) => {
+  const finished = cases.map(c => results[c.id]).filter(r => r && (r.status === 'passed' || r.status === 'failed'));
+  const passed = finished.filter(r => r.status === 'passed').length;
+
+  return (
+    <div className="bg-white rounded-[32px] p-8 shadow-2xl border border-white animate-in slide-in-from-bottom-6 duration-500">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h4 className="font-black text-slate-800 text-xl tracking-tight">Test Suite Results</h4>
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-1">Expected vs actual, per case</p>
+        </div>
+        {finished.length > 0 && (
+          <span className={`px-4 py-2 rounded-full text-[11px] font-black uppercase tracking-widest border-2 ${
+            passed === finished.length ? 'bg-emerald-50 text-emerald-600 border-emerald-100' : 'bg-rose-50 text-rose-600 border-rose-100'
+          }`}>
+            {passed} / {finished.length} passed
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left">
+              <th className="pb-3 pr-4">Case</th>
+              <th className="pb-3 pr-4">Expected</th>
+              <th className="pb-3 pr-4">Actual</th>
+              <th className="pb-3 pr-4">AI Verdict</th>
+              <th className="pb-3 pr-4">Result</th>
+              <th className="pb-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {cases.map(testCase => {
+              const result = results[testCase.id];
+              const simulation = result?.simulation;
+              const expected = testCase.expected_output.trim() !== ''
+                ? testCase.expected_output
+                : simulation ? JSON.stringify(simulation.expected_output) : '—';
+              return (
+                <tr key={testCase.id} className="border-t border-slate-100">
+                  <td className="py-3 pr-4">
+                    <div className="font-black text-slate-700">{testCase.name}</div>
+                    <div className="text-[10px] font-mono text-slate-400 truncate max-w-[180px]">
+                      {Object.entries(testCase.inputs).map(([k, v]) => `${k}=${v}`).join(', ')}
+                    </div>
+                  </td>
+                  <td className="py-3 pr-4 font-mono font-bold text-slate-700">{expected}</td>
+                  <td className="py-3 pr-4 font-mono font-bold text-slate-700">
+                    {simulation ? JSON.stringify(simulation.actual_output) : result?.error ? (
+                      <span className="text-amber-600 text-xs font-sans" title={result.error}>{result.error}</span>
+                    ) : '—'}
+                  </td>
+                  <td className="py-3 pr-4">
+                    {simulation ? (
+                      <span className={`text-xs font-black ${simulation.is_correct ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        <i className={`fa-solid ${simulation.is_correct ? 'fa-check' : 'fa-xmark'} mr-1`}></i>
+                        {simulation.is_correct ? 'Correct' : 'Incorrect'}
+                      </span>
+                    ) : '—'}
+                  </td>
+                  <td className="py-3 pr-4">
+                    <span className={`px-2.5 py-1 rounded-md text-[10px] font-black uppercase tracking-widest ${
+                      result?.status === 'passed' ? 'bg-emerald-100 text-emerald-600'
+                        : result?.status === 'failed' ? 'bg-rose-100 text-rose-600'
+                        : result?.status === 'running' ? 'bg-indigo-100 text-indigo-600'
+                        : result?.status === 'error' ? 'bg-amber-100 text-amber-700'
+                        : 'bg-slate-100 text-slate-400'
+                    }`}>
+                      {result?.status === 'running' && <i className="fa-solid fa-spinner animate-spin mr-1"></i>}
+                      {result?.status === 'passed' ? 'Pass' : result?.status === 'failed' ? 'Fail' : result?.status || 'Not run'}
+                    </span>
+                  </td>
+                  <td className="py-3 text-right">
+                    {simulation && (
+                      <button
+                        onClick={() => onOpen(testCase.id)}
+                        className="text-xs font-bold text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg transition"
+                      >
+                        Open Trace <i className="fa-solid fa-arrow-right ml-1"></i>
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TestResultsTable;
@@ -0,0 +1,132 @@
+
+import React from 'react';
+import { TestCase, TestCaseResult, VariableSpec } from '../types';
+import { createTestCase } from '../services/testSuite';
+import { inputVariables, validateInputs } from '../services/variableTypes';
+import VariableInput from './VariableInput';
+
+interface Props {
+  variables: VariableSpec[];
+  cases: TestCase[];
+  results: Record<string, TestCaseResult>;
+  currentInputs: Record<string, string>;
+  isRunning: boolean;
+  onChange: (cases: TestCase[]) => void;
+  onRun: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<TestCaseResult['status'], string> = {
+  pending: 'bg-slate-100 text-slate-400',
+  running: 'bg-indigo-100 text-indigo-600',
+  passed: 'bg-emerald-100 text-emerald-600',
+  failed: 'bg-rose-100 text-rose-600',
+  error: 'bg-amber-100 text-amber-700',
+  skipped: 'bg-slate-100 text-slate-400',
+};
+
+const TestSuitePanel: React.FC<Props> = ({ variables, cases, results, currentInputs, isRunning, onChange, onRun, onCancel }) => {
+  const updateCase = (id: string, patch: Partial<TestCase>) => {
+    onChange(cases.map(c => (c.id === id ? { ...c, ...patch } : c)));
+  };
+
+  const addCase = () => {
+    // Start from whatever is typed in the Variable Tracker
+    onChange([...cases, createTestCase(variables, cases.length, currentInputs)]);
+  };
+
+  return (
+    <section className="bg-white rounded-3xl p-8 shadow-xl border border-white animate-in slide-in-from-bottom-6 duration-500">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <span className="w-8 h-8 rounded-full bg-teal-100 text-teal-600 flex items-center justify-center text-sm">3</span>
+          Test Suite
+        </h2>
+        <button
+          onClick={addCase}
+          disabled={isRunning}
+          className="text-xs font-bold text-teal-600 hover:bg-teal-50 px-3 py-1.5 rounded-lg transition border border-teal-100 disabled:opacity-40"
+        >
+          <i className="fa-solid fa-plus mr-1.5"></i> Add Case
+        </button>
+      </div>
+
+      {cases.length === 0 ? (
+        <p className="text-xs font-semibold text-slate-400 text-center py-4">
+          Add named input sets to check the algorithm against several cases at once.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {cases.map(testCase => {
+            const result = results[testCase.id];
+            const errors = validateInputs(variables, testCase.inputs);
+            return (
+              <div key={testCase.id} className="p-4 rounded-2xl border-2 border-slate-100 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    className="flex-1 min-w-0 bg-transparent text-sm font-black text-slate-700 outline-none border-b-2 border-transparent focus:border-teal-300"
+                    value={testCase.name}
+                    disabled={isRunning}
+                    onChange={(e) => updateCase(testCase.id, { name: e.target.value })}
+                  />
+                  {result && (
+                    <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[result.status]}`}>
+                      {result.status}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => onChange(cases.filter(c => c.id !== testCase.id))}
+                    disabled={isRunning}
+                    className="w-7 h-7 rounded-lg text-slate-300 hover:text-rose-500 hover:bg-rose-50 transition disabled:opacity-40"
+                    title="Remove case"
+                  >
+                    <i className="fa-solid fa-trash-can text-xs"></i>
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {inputVariables(variables).map(variable => (
+                    <label key={variable.name} className={`block ${variable.type === 'matrix' ? 'col-span-2' : ''}`}>
+                      <span className="block text-[9px] font-black text-slate-400 uppercase mb-1 ml-1">{variable.name}</span>
+                      <VariableInput
+                        variable={variable}
+                        className="w-full px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-lg outline-none focus:border-teal-400 transition font-mono text-xs text-black font-bold"
+                        value={testCase.inputs[variable.name] ?? ''}
+                        disabled={isRunning}
+                        invalid={!!testCase.inputs[variable.name] && !!errors[variable.name]}
+                        onChange={(raw) => updateCase(testCase.id, { inputs: { ...testCase.inputs, [variable.name]: raw } })}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <label className="block">
+                  <span className="block text-[9px] font-black text-slate-400 uppercase mb-1 ml-1">Expected output (optional)</span>
+                  <input
+                    className="w-full px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-lg outline-none focus:border-teal-400 transition font-mono text-xs text-black font-bold"
+                    value={testCase.expected_output}
+                    disabled={isRunning}
+                    placeholder="Leave empty to use the AI's verdict"
+                    onChange={(e) => updateCase(testCase.id, { expected_output: e.target.value })}
+                  />
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {cases.length > 0 && (
+        <button
+          onClick={isRunning ? onCancel : onRun}
+          className={`mt-6 w-full py-4 rounded-2xl font-black text-sm shadow-xl transition active:scale-95 flex items-center justify-center gap-3 ${
+            isRunning ? 'bg-rose-50 text-rose-600 border-2 border-rose-100 shadow-none' : 'bg-teal-600 hover:bg-teal-700 text-white shadow-teal-100'
+          }`}
+        >
+          <i className={`fa-solid ${isRunning ? 'fa-stop' : 'fa-list-check'}`}></i>
+          {isRunning ? 'Stop After Current Case' : `Run All ${cases.length} Case${cases.length === 1 ? '' : 's'}`}
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default TestSuitePanel;
@@ -0,0 +1,82 @@
+
+import React, { useMemo } from 'react';
+import { FlowchartStep, SimulationResult, VariableSpec } from '../types';
+import { buildTraceTable, formatCell, traceTableToCSV, traceTableToHTML, traceTableToMarkdown } from '../services/traceTable';
+import { downloadTextFile } from '../services/download';
+import { variableNames } from '../services/variableTypes';
+
+interface Props {
+  simulation: SimulationResult;
+  variables: VariableSpec[];
+  flowchart: FlowchartStep[];
+  currentIndex: number;
+  onSelectStep: (index: number) => void;
+}
+
+const TraceTableView: React.FC<Props> = ({ simulation, variables, flowchart, currentIndex, onSelectStep }) => {
+  const table = useMemo(() => buildTraceTable(simulation, variableNames(variables), flowchart), [simulation, variables, flowchart]);
+
+  const exports = [
+    { label: 'CSV', icon: 'fa-solid fa-file-csv', run: () => downloadTextFile('trace-table.csv', traceTableToCSV(table), 'text/csv') },
+    { label: 'Markdown', icon: 'fa-brands fa-markdown', run: () => downloadTextFile('trace-table.md', traceTableToMarkdown(table), 'text/markdown') },
+    { label: 'HTML', icon: 'fa-solid fa-file-code', run: () => downloadTextFile('trace-table.html', traceTableToHTML(table, 'Dry Run Trace Table'), 'text/html') },
+  ];
+
+  return (
+    <div className="bg-white rounded-[32px] p-8 shadow-2xl border border-white animate-in slide-in-from-bottom-6 duration-500">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h4 className="font-black text-slate-800 text-xl tracking-tight">Trace Table</h4>
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-1">One row per step, highlighted cells changed</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {exports.map(exp => (
+            <button
+              key={exp.label}
+              onClick={exp.run}
+              className="text-xs font-bold text-slate-600 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition border border-slate-200"
+            >
+              <i className={`${exp.icon} mr-1.5`}></i> {exp.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-[420px] rounded-2xl border border-slate-100">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-50 z-10">
+            <tr className="text-[10px] font-black text-slate-500 uppercase tracking-widest text-left">
+              <th className="px-4 py-3">Step</th>
+              <th className="px-4 py-3">Block</th>
+              {table.columns.map(c => <th key={c} className="px-4 py-3 font-mono normal-case">{c}</th>)}
+              <th className="px-4 py-3">Description</th>
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row, i) => (
+              <tr
+                key={i}
+                onClick={() => onSelectStep(i)}
+                className={`border-t border-slate-100 cursor-pointer transition ${i === currentIndex ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                <td className={`px-4 py-2 font-black ${i === currentIndex ? 'text-indigo-600' : 'text-slate-400'}`}>{row.step_number}</td>
+                <td className="px-4 py-2 text-xs font-semibold text-slate-500 max-w-[160px] truncate" title={row.block}>{row.block}</td>
+                {table.columns.map(c => (
+                  <td
+                    key={c}
+                    className={`px-4 py-2 font-mono font-bold ${row.changed[c] ? 'bg-amber-50 text-amber-700' : 'text-slate-700'}`}
+                  >
+                    {formatCell(row.values[c])}
+                  </td>
+                ))}
+                <td className="px-4 py-2 text-xs text-slate-500 max-w-[240px] truncate" title={row.description}>{row.description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TraceTableView;
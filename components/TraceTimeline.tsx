@@ -0,0 +1,178 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { DryRunStep } from '../types';
+
+interface Props {
+  steps: DryRunStep[];
+  currentIndex: number;
+  onSeek: (index: number) => void;
+  onFinish: () => void;
+  flaggedSteps?: Set<number>;
+  // Jumps to the next breakpoint, or to the end when none is hit
+  onContinue?: () => void;
+}
+
+const SPEEDS = [
+  { label: '0.5x', delay: 2400 },
+  { label: '1x', delay: 1200 },
+  { label: '2x', delay: 600 },
+  { label: '4x', delay: 300 },
+];
+
+const TraceTimeline: React.FC<Props> = ({ steps, currentIndex, onSeek, onFinish, flaggedSteps, onContinue }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedIndex, setSpeedIndex] = useState(1);
+  const listRef = useRef<HTMLDivElement>(null);
+  const lastIndex = steps.length - 1;
+
+  const seek = (index: number) => onSeek(Math.max(0, Math.min(lastIndex, index)));
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => {
+      if (currentIndex >= lastIndex) {
+        setIsPlaying(false);
+        onFinish();
+      } else {
+        onSeek(currentIndex + 1);
+      }
+    }, SPEEDS[speedIndex].delay);
+    return () => clearTimeout(timer);
+  }, [isPlaying, currentIndex, lastIndex, speedIndex, onSeek, onFinish]);
+
+  // Shortcuts work only while focus is inside the timeline; Space and the arrows keep their
+  // usual meaning on its buttons, the slider and the speed picker
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.closest('textarea, [contenteditable="true"]')) return;
+    if (target.closest('input, select') && e.key !== 'F8') return;
+    if ((e.key === ' ' || e.key.startsWith('Arrow')) && target.closest('button, a')) return;
+    switch (e.key) {
+      case 'ArrowRight':
+        if (currentIndex >= lastIndex) onFinish();
+        else seek(currentIndex + 1);
+        break;
+      case 'ArrowLeft':
+        seek(currentIndex - 1);
+        break;
+      case 'Home':
+        seek(0);
+        break;
+      case 'End':
+        seek(lastIndex);
+        break;
+      case ' ':
+        setIsPlaying(prev => !prev);
+        break;
+      case 'F8':
+        if (!onContinue) return;
+        setIsPlaying(false);
+        onContinue();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    const el = listRef.current?.querySelector<HTMLElement>(`[data-step="${currentIndex}"]`);
+    el?.scrollIntoView({ block: 'nearest', inline: 'center', behavior: 'smooth' });
+  }, [currentIndex]);
+
+  const controlClasses = 'w-9 h-9 rounded-xl flex items-center justify-center text-slate-500 hover:bg-slate-100 hover:text-indigo-600 transition disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="border-t border-slate-100 bg-white px-6 py-4 space-y-3 outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-indigo-200"
+    >
+      <div className="flex items-center gap-2">
+        <button onClick={() => seek(0)} disabled={currentIndex <= 0} className={controlClasses} title="First step (Home)">
+          <i className="fa-solid fa-backward-step text-xs"></i>
+        </button>
+        <button onClick={() => seek(currentIndex - 1)} disabled={currentIndex <= 0} className={controlClasses} title="Previous step (←)">
+          <i className="fa-solid fa-chevron-left text-xs"></i>
+        </button>
+        <button
+          onClick={() => setIsPlaying(prev => !prev)}
+          className="w-11 h-11 rounded-2xl bg-indigo-600 text-white flex items-center justify-center shadow-lg hover:bg-indigo-700 active:scale-95 transition"
+          title="Play / pause (Space)"
+        >
+          <i className={`fa-solid ${isPlaying ? 'fa-pause' : 'fa-play'} text-sm`}></i>
+        </button>
+        <button onClick={() => seek(currentIndex + 1)} disabled={currentIndex >= lastIndex} className={controlClasses} title="Next step (→)">
+          <i className="fa-solid fa-chevron-right text-xs"></i>
+        </button>
+        <button onClick={() => seek(lastIndex)} disabled={currentIndex >= lastIndex} className={controlClasses} title="Last step (End)">
+          <i className="fa-solid fa-forward-step text-xs"></i>
+        </button>
+        {onContinue && (
+          <button
+            onClick={() => { setIsPlaying(false); onContinue(); }}
+            disabled={currentIndex >= lastIndex}
+            className="h-9 px-3 rounded-xl flex items-center gap-1.5 text-xs font-bold text-rose-600 hover:bg-rose-50 transition disabled:opacity-30 disabled:hover:bg-transparent"
+            title="Continue to the next breakpoint (F8)"
+          >
+            <i className="fa-solid fa-forward text-xs"></i> Continue
+          </button>
+        )}
+
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, lastIndex)}
+          value={Math.max(0, currentIndex)}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1 mx-3 accent-indigo-600"
+        />
+
+        <div className="flex bg-slate-100 p-1 rounded-lg">
+          {SPEEDS.map((speed, i) => (
+            <button
+              key={speed.label}
+              onClick={() => setSpeedIndex(i)}
+              className={`px-2.5 py-1 text-[10px] font-black rounded-md transition ${speedIndex === i ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {speed.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex gap-2 overflow-x-auto pb-1">
+        {steps.map((step, i) => {
+          const isCurrent = i === currentIndex;
+          const isFlagged = flaggedSteps?.has(i);
+          return (
+            <button
+              key={i}
+              data-step={i}
+              onClick={() => seek(i)}
+              title={step.description}
+              className={`shrink-0 w-40 text-left px-3 py-2 rounded-xl border-2 transition ${
+                isCurrent
+                  ? 'bg-indigo-50 border-indigo-400'
+                  : i < currentIndex
+                    ? 'bg-slate-50 border-slate-100 hover:border-slate-200'
+                    : 'bg-white border-slate-100 hover:border-slate-200'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-0.5">
+                <span className={`text-[10px] font-black uppercase ${isCurrent ? 'text-indigo-600' : 'text-slate-400'}`}>Step {i + 1}</span>
+                <span className="flex items-center gap-1.5 text-[9px] font-mono text-slate-400">
+                  {isFlagged && <i className="fa-solid fa-code-compare text-rose-500" title="Interpreter disagrees"></i>}
+                  #{step.flowchart_step_id}
+                </span>
+              </div>
+              <p className="text-[11px] font-semibold text-slate-600 truncate">{step.description}</p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TraceTimeline;
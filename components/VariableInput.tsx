@@ -0,0 +1,64 @@
+import React from 'react';
+import { VariableSpec } from '../types';
+import { VARIABLE_PLACEHOLDERS } from '../services/variableTypes';
+
+interface Props {
+  variable: VariableSpec;
+  value: string;
+  onChange: (raw: string) => void;
+  className: string;
+  disabled?: boolean;
+  invalid?: boolean;
+}
+
+// One widget per declared type; the raw text is kept and parsed by the caller.
+const VariableInput: React.FC<Props> = ({ variable, value, onChange, className, disabled, invalid }) => {
+  const classes = `${className} ${invalid ? '!border-rose-300' : ''}`;
+
+  switch (variable.type) {
+    case 'boolean':
+      return (
+        <select className={classes} value={value} disabled={disabled} onChange={(e) => onChange(e.target.value)}>
+          <option value="">Choose...</option>
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      );
+    case 'integer':
+    case 'float':
+      return (
+        <input
+          type="number"
+          step={variable.type === 'integer' ? 1 : 'any'}
+          className={classes}
+          value={value}
+          disabled={disabled}
+          placeholder={VARIABLE_PLACEHOLDERS[variable.type]}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case 'matrix':
+      return (
+        <textarea
+          className={`${classes} h-24 resize-none`}
+          value={value}
+          disabled={disabled}
+          placeholder={VARIABLE_PLACEHOLDERS.matrix}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    default:
+      return (
+        <input
+          type="text"
+          className={classes}
+          value={value}
+          disabled={disabled}
+          placeholder={VARIABLE_PLACEHOLDERS[variable.type]}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+};
+
+export default VariableInput;
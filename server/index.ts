@@ -0,0 +1,190 @@
+import http from "node:http";
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { loadEnv } from "vite";
+import { AITask, ParseRequest, SimulationRequest } from "../types";
+import { AIServiceError, classifyError } from "../services/aiErrors";
+import { geminiProvider } from "../services/providers/geminiProvider";
+import { PROXY_ENDPOINTS, ProxyEvent, proxyErrorBody } from "../services/providers/proxyProvider";
+import { DEFAULT_AI_SETTINGS } from "../services/settingsStore";
+import { SOURCE_LANGUAGE_LABELS } from "../services/sourceCode";
+import { RateLimiter } from "./rateLimit";
+
+// Serves /api/parse and /api/simulate with the Gemini key kept on the server,
+// and the built app from dist/ when there is one. Run with `npm run server`.
+
+const env = loadEnv("production", process.cwd(), "");
+const PORT = Number(env.API_PORT) || 8787;
+const RATE_LIMIT = Number(env.RATE_LIMIT_PER_MINUTE) || 20;
+// Only behind a reverse proxy does X-Forwarded-For name the real client
+const TRUST_PROXY = env.TRUST_PROXY === "1";
+// Photos of flowcharts arrive base64-encoded inside the JSON body
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const DIST_DIR = path.resolve("dist");
+
+// The Gemini provider reads the key from here
+process.env.API_KEY = env.GEMINI_API_KEY || env.API_KEY || "";
+if (!process.env.API_KEY) console.warn("GEMINI_API_KEY is not set; every request will fail with an auth error.");
+
+// The model settings are the server's; the client's settings panel does not reach the operator's key
+const SETTINGS = { ...DEFAULT_AI_SETTINGS, provider: "gemini" as const, recording: "off" as const };
+
+const limiter = new RateLimiter(RATE_LIMIT, 60_000);
+setInterval(() => limiter.prune(), 60_000).unref();
+
+const STATUS_BY_KIND: Record<string, number> = {
+  quota: 429,
+  auth: 502,
+  invalid_response: 502,
+  network: 502,
+  safety: 422,
+  timeout: 504,
+  unknown: 500,
+};
+
+class BadRequestError extends Error {}
+
+function clientId(req: http.IncomingMessage): string {
+  const forwarded = TRUST_PROXY ? String(req.headers["x-forwarded-for"] || "").split(",")[0].trim() : "";
+  return forwarded || req.socket.remoteAddress || "unknown";
+}
+
+async function readJSON(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new BadRequestError(`Request body is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB`);
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new BadRequestError("Request body is not valid JSON");
+  }
+}
+
+function checkRequest(task: AITask, body: any): ParseRequest | SimulationRequest {
+  if (!body || typeof body !== "object") throw new BadRequestError("Expected a JSON object");
+  if (typeof body.description !== "string") throw new BadRequestError("description must be a string");
+  if (body.images !== undefined && !(Array.isArray(body.images) && body.images.every((i: unknown) => typeof i === "string"))) {
+    throw new BadRequestError("images must be an array of strings");
+  }
+  if (body.language !== undefined && !(body.language in SOURCE_LANGUAGE_LABELS)) {
+    throw new BadRequestError(`Unknown language "${body.language}"`);
+  }
+  if (task === "simulate") {
+    if (!Array.isArray(body.digitalFlowchart)) throw new BadRequestError("digitalFlowchart must be an array");
+    if (!Array.isArray(body.variables)) throw new BadRequestError("variables must be an array");
+    if (!body.inputs || typeof body.inputs !== "object") throw new BadRequestError("inputs must be an object");
+  }
+  return body;
+}
+
+async function handleAI(task: AITask, req: http.IncomingMessage, res: http.ServerResponse) {
+  const send = (event: ProxyEvent, status = 200, headers: http.OutgoingHttpHeaders = {}) => {
+    if (!res.headersSent) res.writeHead(status, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store", ...headers });
+    res.write(JSON.stringify(event) + "\n");
+  };
+  const fail = (error: AIServiceError, headers?: http.OutgoingHttpHeaders) => {
+    send({ error: proxyErrorBody(error) }, STATUS_BY_KIND[error.kind] || 500, headers);
+    res.end();
+  };
+
+  // Without a key the SDK fails with an unclassifiable error, so report it as the auth problem it is
+  if (!process.env.API_KEY) {
+    send({ error: proxyErrorBody(new AIServiceError("auth", task, "The API server has no GEMINI_API_KEY configured.")) }, 503);
+    return res.end();
+  }
+
+  const decision = limiter.take(clientId(req));
+  if (!decision.allowed) {
+    const seconds = Math.ceil(decision.retryAfterMs / 1000);
+    return fail(
+      new AIServiceError("quota", task, `Rate limit of ${RATE_LIMIT} requests per minute reached; try again in ${seconds}s`, decision.retryAfterMs),
+      { "Retry-After": String(seconds) }
+    );
+  }
+
+  let request: ParseRequest | SimulationRequest;
+  try {
+    request = checkRequest(task, await readJSON(req));
+  } catch (err) {
+    if (!(err instanceof BadRequestError)) throw err;
+    send({ error: { kind: "unknown", phase: task, message: `Bad request: ${err.message}` } }, 400);
+    return res.end();
+  }
+
+  // Stop the model call when the browser cancels or goes away
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const result = task === "parse"
+      ? await geminiProvider.parseFlowchart(request, SETTINGS, { signal: controller.signal })
+      : await geminiProvider.runSimulation(request as SimulationRequest, SETTINGS, {
+          signal: controller.signal,
+          onSteps: steps => send({ steps }),
+        });
+    send({ result });
+    res.end();
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    fail(classifyError(err, task));
+  }
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript",
+  ".css": "text/css",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+};
+
+// Single-page app: unknown paths get index.html
+async function serveStatic(req: http.IncomingMessage, res: http.ServerResponse) {
+  const urlPath = decodeURIComponent(new URL(req.url || "/", "http://localhost").pathname);
+  let file = path.resolve(DIST_DIR, "." + urlPath);
+  if (!file.startsWith(DIST_DIR + path.sep) || !existsSync(file) || urlPath.endsWith("/")) {
+    file = path.join(DIST_DIR, "index.html");
+  }
+  try {
+    const body = await readFile(file);
+    res.writeHead(200, { "Content-Type": MIME_TYPES[path.extname(file)] || "application/octet-stream" });
+    res.end(body);
+  } catch {
+    res.writeHead(404, { "Content-Type": "text/plain" });
+    res.end("Not found. Run `npm run build` to serve the app from this server.");
+  }
+}
+
+const ROUTES = Object.entries(PROXY_ENDPOINTS).map(([task, endpoint]) => ({ task: task as AITask, endpoint }));
+
+async function route(req: http.IncomingMessage, res: http.ServerResponse) {
+  const pathname = new URL(req.url || "/", "http://localhost").pathname;
+  const match = ROUTES.find(r => r.endpoint === pathname);
+  if (!match) return serveStatic(req, res);
+  if (req.method !== "POST") {
+    res.writeHead(405, { Allow: "POST" });
+    return res.end();
+  }
+  return handleAI(match.task, req, res);
+}
+
+const server = http.createServer((req, res) => {
+  route(req, res).catch(err => {
+    console.error(`${req.method} ${req.url} failed:`, err);
+    if (!res.headersSent) res.writeHead(500, { "Content-Type": "text/plain" });
+    res.end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`FlowLab server on http://localhost:${PORT} (${RATE_LIMIT} AI requests per client per minute)`);
+});
@@ -0,0 +1,32 @@
+// Sliding-window request limit per client. Timestamps are kept in memory, so
+// limits reset when the server restarts.
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // How long until the oldest request in the window expires
+  retryAfterMs: number;
+}
+
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  take(client: string, now = Date.now()): RateLimitDecision {
+    const recent = (this.hits.get(client) || []).filter(t => now - t < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(client, recent);
+      return { allowed: false, retryAfterMs: this.windowMs - (now - recent[0]) };
+    }
+    recent.push(now);
+    this.hits.set(client, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  // Drops clients with no requests left in the window
+  prune(now = Date.now()) {
+    for (const [client, times] of this.hits) {
+      if (times.every(t => now - t >= this.windowMs)) this.hits.delete(client);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { AITask } from "../types";
+
+// Typed failures of the AI service layer. Providers throw these where they
+// know what went wrong; classifyError maps anything else (SDK errors, fetch
+// failures) onto the same kinds so the UI never has to inspect messages.
+
+export type AIErrorKind =
+  | 'quota'
+  | 'auth'
+  | 'invalid_response'
+  | 'safety'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'not_recorded'
+  | 'unknown';
+
+export class AIServiceError extends Error {
+  constructor(
+    public kind: AIErrorKind,
+    public phase: AITask,
+    message: string,
+    // Server-suggested wait before retrying, when the error carried one
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AIServiceError';
+  }
+
+  // Worth retrying: dropped connections, overloaded servers and per-minute rate limits.
+  // Timeouts are not; the next attempt would most likely take just as long.
+  get transient(): boolean {
+    return this.kind === 'network' || this.kind === 'quota';
+  }
+}
+
+export const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+// Quota errors that ask for a longer wait than this are treated as exhausted, not retried
+const MAX_RETRY_DELAY_MS = 30000;
+export const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+export function errorKindForStatus(status: number): AIErrorKind {
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'network';
+  return 'unknown';
+}
+
+function retryAfter(message: string): number | undefined {
+  // Gemini puts RetryInfo in the error body, e.g. "retryDelay": "27s"
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+export function classifyError(err: unknown, phase: AITask): AIServiceError {
+  if (err instanceof AIServiceError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  const status = typeof (err as any)?.status === 'number' ? (err as any).status as number : undefined;
+
+  let kind: AIErrorKind = status !== undefined ? errorKindForStatus(status) : 'unknown';
+  if (kind === 'unknown') {
+    if ((err as any)?.name === 'AbortError') kind = 'cancelled';
+    else if (/\b429\b|RESOURCE_EXHAUSTED|quota/i.test(message)) kind = 'quota';
+    else if (/API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED|Requested entity was not found/i.test(message)) kind = 'auth';
+    else if (/DEADLINE_EXCEEDED|timed? ?out/i.test(message)) kind = 'timeout';
+    else if (/\b50[0234]\b|UNAVAILABLE|overloaded|Failed to fetch|fetch failed|NetworkError|ECONNRESET|ENOTFOUND|ECONNREFUSED/i.test(message)) kind = 'network';
+  }
+  return new AIServiceError(kind, phase, message, kind === 'quota' ? retryAfter(message) : undefined);
+}
+
+// Resolves early when the caller cancels
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+// Runs a request with a timeout and retries transient failures with
+// exponential backoff (1s, 2s, ... plus jitter). `signal` is the caller's
+// cancel; each attempt gets its own signal that also fires on timeout.
+export async function withRetry<T>(
+  phase: AITask,
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, REQUEST_TIMEOUT_MS);
+    const forward = () => controller.abort();
+    signal?.addEventListener('abort', forward, { once: true });
+
+    try {
+      return await run(controller.signal);
+    } catch (err) {
+      let error = classifyError(err, phase);
+      if (signal?.aborted) error = new AIServiceError('cancelled', phase, 'Cancelled');
+      else if (timedOut) error = new AIServiceError('timeout', phase, `No response within ${REQUEST_TIMEOUT_MS / 60000} minutes`);
+
+      const delay = error.retryAfterMs ?? BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250;
+      if (!error.transient || attempt >= MAX_ATTEMPTS || delay > MAX_RETRY_DELAY_MS) throw error;
+      console.warn(`Retrying ${phase} after ${error.kind} error (attempt ${attempt} of ${MAX_ATTEMPTS}):`, error.message);
+      await sleep(delay, signal);
+      if (signal?.aborted) throw new AIServiceError('cancelled', phase, 'Cancelled');
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forward);
+    }
+  }
+}
+
+const PHASE_LABELS: Record<AITask, string> = {
+  parse: 'Reading the flowchart',
+  simulate: 'The dry run',
+};
+
+// What the user should do about it, naming the phase that failed
+export function describeError(error: AIServiceError): string {
+  const phase = PHASE_LABELS[error.phase];
+  switch (error.kind) {
+    case 'quota':
+      return `${phase} failed: the API quota is used up. Wait a minute and retry, or select your own API key.`;
+    case 'auth':
+      return `${phase} failed: the API key was rejected or has expired. Select a valid key, or check the key in the AI settings.`;
+    case 'invalid_response':
+    case 'not_recorded':
+      return error.message;
+    case 'safety':
+      return `${phase} was blocked by the model's safety filters. Rephrase the description or use a different image.`;
+    case 'network':
+      return `${phase} failed: the AI service could not be reached, even after retrying. Check your connection, or switch to Replay in the AI settings to work offline.`;
+    case 'timeout':
+      return `${phase} timed out waiting for the model. Try again, or lower the thinking budget in the AI settings.`;
+    case 'cancelled':
+      return `${phase} was cancelled.`;
+    default:
+      return `${phase} failed: ${error.message}`;
+  }
+}
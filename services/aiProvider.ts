@@ -0,0 +1,109 @@
+import { AISettings, AITask, DryRunStep, ParseRequest, ParseResult, SimulationRequest, SimulationResult, ValidationViolation } from "../types";
+import {
+  PARSE_SYSTEM_INSTRUCTION,
+  SIMULATE_SYSTEM_INSTRUCTION,
+  buildParsePrompt,
+  buildRepairPrompt,
+  buildSimulationPrompt,
+  normalizeParseResult,
+  normalizeSimulationResult,
+  parseJSONResponse,
+} from "./prompts";
+import { ResponseValidationError, formatViolations, validateParseResult, validateSimulationResult } from "./responseValidator";
+import { StreamingArrayParser } from "./streamingJSON";
+import { variableNames } from "./variableTypes";
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface SimulationStreamOptions extends RequestOptions {
+  // Called with every dry_run step received so far whenever another one completes
+  onSteps?: (steps: DryRunStep[]) => void;
+}
+
+// Anything that can serve the parse/simulate contract.
+export interface AIProvider {
+  parseFlowchart(request: ParseRequest, settings: AISettings, options?: RequestOptions): Promise<ParseResult>;
+  runSimulation(request: SimulationRequest, settings: AISettings, options?: SimulationStreamOptions): Promise<SimulationResult>;
+}
+
+export interface JSONGenerationCall {
+  task: AITask;
+  systemInstruction: string;
+  prompt: string;
+  images?: string[];
+  signal?: AbortSignal;
+  // When set, the generator streams and reports the whole text received so far
+  onText?: (text: string) => void;
+}
+
+// Sends one prompt to a model and resolves with its raw JSON text.
+export type JSONGenerator = (call: JSONGenerationCall, settings: AISettings) => Promise<string>;
+
+type Validator = (raw: any) => ValidationViolation[];
+
+// Builds a provider for any model that can answer a prompt with JSON; prompts,
+// validation and normalization are shared so every such provider behaves the same way.
+export function createJSONProvider(generate: JSONGenerator): AIProvider {
+  const check = (text: string, validate: Validator): { raw: any; violations: ValidationViolation[] } => {
+    try {
+      const raw = parseJSONResponse(text);
+      return { raw, violations: validate(raw) };
+    } catch (err) {
+      return { raw: null, violations: [{ path: '$', message: `not valid JSON (${err instanceof Error ? err.message : String(err)})` }] };
+    }
+  };
+
+  // Asks once more with the violations attached before giving up
+  const generateValid = async (call: JSONGenerationCall, settings: AISettings, validate: Validator) => {
+    const text = await generate(call, settings);
+    const first = check(text, validate);
+    if (first.violations.length === 0) return first.raw;
+
+    console.warn(`Repairing ${call.task} response:`, first.violations);
+    const repairCall = { ...call, prompt: buildRepairPrompt(call.prompt, text, formatViolations(first.violations)) };
+    const second = check(await generate(repairCall, settings), validate);
+    if (second.violations.length > 0) throw new ResponseValidationError(call.task, second.violations);
+    return second.raw;
+  };
+
+  return {
+    async parseFlowchart(request, settings, options = {}) {
+      try {
+        const raw = await generateValid({
+          task: 'parse',
+          systemInstruction: PARSE_SYSTEM_INSTRUCTION,
+          prompt: buildParsePrompt(request),
+          images: request.images,
+          signal: options.signal,
+        }, settings, validateParseResult);
+        return normalizeParseResult(raw);
+      } catch (error) {
+        console.error("Parse Error:", error);
+        throw error;
+      }
+    },
+
+    async runSimulation(request, settings, options = {}) {
+      const { signal, onSteps } = options;
+      const stream = new StreamingArrayParser('dry_run');
+      try {
+        const raw = await generateValid({
+          task: 'simulate',
+          systemInstruction: SIMULATE_SYSTEM_INSTRUCTION,
+          prompt: buildSimulationPrompt(request),
+          images: request.images,
+          signal,
+          onText: onSteps && (text => {
+            if (stream.update(text)) onSteps(normalizeSimulationResult({ dry_run: stream.items }).dry_run);
+          }),
+        }, settings, raw => validateSimulationResult(raw, request.digitalFlowchart, variableNames(request.variables)));
+        return normalizeSimulationResult(raw);
+      } catch (error) {
+        console.error("Simulation Error:", error);
+        throw error;
+      }
+    },
+  };
+}
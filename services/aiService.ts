@@ -0,0 +1,51 @@
+import { AISettings, ParseRequest, ParseResult, ProviderId, SimulationRequest, SimulationResult } from "../types";
+import { AIProvider, RequestOptions, SimulationStreamOptions } from "./aiProvider";
+import { withRetry } from "./aiErrors";
+import { geminiProvider } from "./providers/geminiProvider";
+import { openAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { proxyProvider } from "./providers/proxyProvider";
+import { stubProvider } from "./providers/stubProvider";
+import { withRecording } from "./recordings";
+import { loadAISettings } from "./settingsStore";
+
+const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider,
+  stub: stubProvider,
+};
+
+export function getProvider(id: ProviderId): AIProvider {
+  return PROVIDERS[id] || geminiProvider;
+}
+
+// Only AI Studio supplies a Gemini key to the browser; elsewhere the local server (server/index.ts) makes the call
+function usesProxy(settings: AISettings): boolean {
+  return settings.provider === "gemini" && typeof window !== "undefined" && !window.aistudio;
+}
+
+// The selected provider behind the record/replay layer
+function activeProvider(settings: AISettings): AIProvider {
+  const provider = usesProxy(settings) ? proxyProvider : getProvider(settings.provider);
+  return withRecording(provider, settings.recording);
+}
+
+// Both calls reject with an AIServiceError; network and rate-limit failures are retried first
+export async function parseFlowchart(
+  request: ParseRequest,
+  settings: AISettings = loadAISettings(),
+  options: RequestOptions = {}
+): Promise<ParseResult> {
+  return withRetry('parse', signal => activeProvider(settings).parseFlowchart(request, settings, { signal }), options.signal);
+}
+
+export async function runSimulation(
+  request: SimulationRequest,
+  settings: AISettings = loadAISettings(),
+  options: SimulationStreamOptions = {}
+): Promise<SimulationResult> {
+  return withRetry(
+    'simulate',
+    signal => activeProvider(settings).runSimulation(request, settings, { ...options, signal }),
+    options.signal
+  );
+}
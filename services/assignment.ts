@@ -0,0 +1,201 @@
+import { Assignment, AssignmentFile, AssignmentGrade, HiddenTest, HiddenTestGrade, ParseResult, RubricWeights, TestCase } from "../types";
+import { executeFlowchart } from "./interpreter";
+import { normalizeParseResult } from "./prompts";
+import { validateParseResult } from "./responseValidator";
+import { sameValue } from "./traceVerifier";
+import { typedInputs, validateInputs, variableNames } from "./variableTypes";
+
+// Teacher assignments: a problem statement handed to students together with a
+// hidden reference flowchart and hidden test inputs. A submission is graded by
+// running both flowcharts through the interpreter, so the score is the same
+// every time and never depends on the model.
+
+export const ASSIGNMENT_FILE_VERSION = 1;
+export const ASSIGNMENT_FILE_EXTENSION = ".flowassign.json";
+
+export const DEFAULT_RUBRIC: RubricWeights = { output: 70, termination: 20, efficiency: 10 };
+
+export const RUBRIC_LABELS: Record<keyof RubricWeights, string> = {
+  output: "Correct output",
+  termination: "Reaches an end block",
+  efficiency: "Step count",
+};
+
+// A submission may take this many times the reference's steps and still count as efficient
+const EFFICIENCY_FACTOR = 2;
+
+export class AssignmentFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AssignmentFileError";
+  }
+}
+
+export function hiddenTestsFromCases(cases: TestCase[]): HiddenTest[] {
+  return cases.map(c => ({ name: c.name, inputs: { ...c.inputs } }));
+}
+
+function runReference(assignment: Assignment, test: HiddenTest) {
+  const { reference } = assignment;
+  return executeFlowchart(reference.digital_flowchart, typedInputs(reference.variables, test.inputs), variableNames(reference.variables));
+}
+
+// Problems that would make the assignment ungradable, for the teacher to fix before exporting
+export function checkAssignment(assignment: Assignment): string[] {
+  const problems: string[] = [];
+  if (!assignment.title.trim()) problems.push("Give the assignment a title.");
+  if (!assignment.problem.trim()) problems.push("Write the problem statement students will see.");
+  if (assignment.tests.length === 0) problems.push("Add at least one test case to the Test Suite; its inputs become the hidden tests.");
+  if (Object.values(assignment.rubric).every(weight => !(weight > 0))) problems.push("Give at least one rubric criterion a positive weight.");
+  for (const test of assignment.tests) {
+    const invalid = Object.keys(validateInputs(assignment.reference.variables, test.inputs));
+    if (invalid.length > 0) {
+      problems.push(`${test.name}: missing or invalid ${invalid.join(", ")}.`);
+      continue;
+    }
+    const run = runReference(assignment, test);
+    if (run.status !== "completed") problems.push(`${test.name}: the reference flowchart did not finish (${run.message || run.status}).`);
+  }
+  return problems;
+}
+
+export function referenceOutput(assignment: Assignment, test: HiddenTest): unknown {
+  return runReference(assignment, test).actual_output;
+}
+
+function gradeTest(assignment: Assignment, submission: ParseResult, test: HiddenTest): HiddenTestGrade {
+  const expected = runReference(assignment, test);
+  // Inputs are typed by the teacher's declarations, whatever types the student chose
+  const actual = executeFlowchart(
+    submission.digital_flowchart,
+    typedInputs(assignment.reference.variables, test.inputs),
+    variableNames(submission.variables)
+  );
+  const completed = actual.status === "completed";
+  return {
+    name: test.name,
+    status: actual.status,
+    outputMatches: completed && sameValue(expected.actual_output, actual.actual_output),
+    efficient: completed && actual.steps.length <= EFFICIENCY_FACTOR * expected.steps.length,
+    message: actual.message,
+  };
+}
+
+export function gradeSubmission(assignment: Assignment, submission: ParseResult): AssignmentGrade {
+  const tests: HiddenTestGrade[] = assignment.tests.map(test => {
+    try {
+      return gradeTest(assignment, submission, test);
+    } catch (err) {
+      // A test that cannot be run scores nothing instead of failing the whole grade
+      const message = err instanceof Error ? err.message : String(err);
+      return { name: test.name, status: "error", outputMatches: false, efficient: false, message };
+    }
+  });
+
+  const share = (count: number) => (tests.length === 0 ? 0 : count / tests.length);
+  const criteria = (Object.keys(RUBRIC_LABELS) as (keyof RubricWeights)[]).map(criterion => ({
+    criterion,
+    weight: Math.max(0, assignment.rubric[criterion] || 0),
+    earned: share(tests.filter(t =>
+      criterion === "output" ? t.outputMatches : criterion === "termination" ? t.status === "completed" : t.efficient
+    ).length),
+  }));
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const score = totalWeight === 0 ? 0 : criteria.reduce((sum, c) => sum + c.weight * c.earned, 0) / totalWeight;
+
+  return {
+    score: Math.round(score * 100),
+    passed: tests.length > 0 && tests.every(t => t.outputMatches),
+    criteria,
+    tests,
+  };
+}
+
+// Base64 only: keeps the solution out of sight in the app, but anyone with the file can decode it
+function encodeHidden(value: unknown): string {
+  let binary = "";
+  new TextEncoder().encode(JSON.stringify(value)).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+function decodeHidden(text: string): any {
+  const bytes = Uint8Array.from(atob(text), c => c.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+export function assignmentFileName(assignment: Pick<Assignment, "title">): string {
+  const slug = assignment.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+  return `${slug || "assignment"}${ASSIGNMENT_FILE_EXTENSION}`;
+}
+
+export function serializeAssignment(assignment: Assignment): string {
+  const file: AssignmentFile = {
+    format: "flowlab-assignment",
+    version: ASSIGNMENT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: assignment.title,
+    problem: assignment.problem,
+    rubric: assignment.rubric,
+    hidden: encodeHidden({ reference: assignment.reference, tests: assignment.tests }),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Inputs are kept as typed text; numbers and booleans from hand-written files are accepted too
+function readTestInputs(raw: Record<string, unknown>, testName: string): Record<string, string> {
+  const inputs: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (typeof value === "string") inputs[name] = value;
+    else if (typeof value === "number" || typeof value === "boolean") inputs[name] = String(value);
+    else throw new AssignmentFileError(`The assignment file is damaged: ${testName} input ${name} must be a string, number or boolean.`);
+  }
+  return inputs;
+}
+
+export function parseAssignmentFile(text: string): Assignment {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new AssignmentFileError("This file is not valid JSON.");
+  }
+  if (!file || typeof file !== "object" || file.format !== "flowlab-assignment" || typeof file.hidden !== "string") {
+    throw new AssignmentFileError("This is not a FlowLab assignment file.");
+  }
+  if (typeof file.version !== "number" || file.version > ASSIGNMENT_FILE_VERSION) {
+    throw new AssignmentFileError(`Assignment file version ${file.version} is newer than this app supports (${ASSIGNMENT_FILE_VERSION}).`);
+  }
+
+  let hidden: any;
+  try {
+    hidden = decodeHidden(file.hidden);
+  } catch {
+    throw new AssignmentFileError("The assignment file is damaged: its hidden section cannot be read.");
+  }
+  const violations = hidden && hidden.reference ? validateParseResult(hidden.reference) : [{ path: "reference", message: "is missing" }];
+  if (violations.length > 0) {
+    const details = violations.slice(0, 3).map(v => `${v.path} ${v.message}`).join("; ");
+    throw new AssignmentFileError(`The assignment file is damaged: ${details}.`);
+  }
+  const tests: HiddenTest[] = Array.isArray(hidden.tests)
+    ? hidden.tests
+        .filter((t: any) => t && typeof t.inputs === "object" && t.inputs !== null)
+        .map((t: any, i: number) => {
+          const name = typeof t.name === "string" ? t.name : `Test ${i + 1}`;
+          return { name, inputs: readTestInputs(t.inputs, name) };
+        })
+    : [];
+  const rubric = { ...DEFAULT_RUBRIC };
+  for (const criterion of Object.keys(DEFAULT_RUBRIC) as (keyof RubricWeights)[]) {
+    const weight = file.rubric?.[criterion];
+    if (typeof weight === "number" && weight >= 0) rubric[criterion] = weight;
+  }
+
+  return {
+    title: typeof file.title === "string" ? file.title : "Assignment",
+    problem: typeof file.problem === "string" ? file.problem : "",
+    reference: normalizeParseResult(hidden.reference),
+    tests,
+    rubric,
+  };
+}
@@ -0,0 +1,51 @@
+import { DebugSettings, DryRunStep } from "../types";
+import { Value, evaluateExpression, truthy } from "./expression";
+
+// Breakpoints and watch expressions for stepping through a dry run. Both are
+// evaluated against the variable_state of each step, so they work the same
+// for traces from the model and from the interpreter.
+
+export const EMPTY_DEBUG_SETTINGS: DebugSettings = { breakpoints: [], conditions: [], watches: [] };
+
+export type WatchResult = { ok: true; value: Value; message?: undefined } | { ok: false; value?: undefined; message: string };
+
+export interface BreakpointHit {
+  index: number;
+  reason: string;
+}
+
+export function evaluateWatch(expression: string, state: Record<string, any> | undefined): WatchResult {
+  try {
+    return { ok: true, value: evaluateExpression(expression, (state || {}) as Record<string, Value>) };
+  } catch (err) {
+    return { ok: false, message: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+// A condition that cannot be evaluated yet (e.g. a variable without a value) does not hold
+function holds(condition: string, state: Record<string, any> | undefined): boolean {
+  const result = evaluateWatch(condition, state);
+  return result.ok && truthy(result.value);
+}
+
+export function toggleBreakpoint(settings: DebugSettings, stepId: number): DebugSettings {
+  const breakpoints = settings.breakpoints.includes(stepId)
+    ? settings.breakpoints.filter(id => id !== stepId)
+    : [...settings.breakpoints, stepId];
+  return { ...settings, breakpoints };
+}
+
+// First step after `from` that sits on a breakpoint block or where a condition
+// turns true. Conditions that stay true do not stop every step.
+export function findNextBreakpoint(steps: DryRunStep[], from: number, settings: DebugSettings): BreakpointHit | null {
+  for (let i = Math.max(0, from + 1); i < steps.length; i++) {
+    const step = steps[i];
+    if (settings.breakpoints.includes(step.flowchart_step_id)) {
+      return { index: i, reason: `Breakpoint on block #${step.flowchart_step_id}` };
+    }
+    const previous = i > 0 ? steps[i - 1].variable_state : undefined;
+    const condition = settings.conditions.find(c => holds(c, step.variable_state) && !holds(c, previous));
+    if (condition) return { index: i, reason: `${condition} became true` };
+  }
+  return null;
+}
@@ -0,0 +1,249 @@
+import { FlowchartStep } from "../types";
+import { successorId } from "./flowGraph";
+
+// Recovers if/else and while structure from the flowchart's jumps, so code
+// generation can print real control flow instead of gotos.
+
+export type CodeNode =
+  | { kind: 'block'; stepId: number }
+  | { kind: 'if'; stepId: number; negate: boolean; then: CodeNode[]; otherwise: CodeNode[] }
+  // stepId is the decision tested on each pass; null for an unconditional loop
+  | { kind: 'while'; stepId: number | null; negate: boolean; body: CodeNode[] }
+  // stepId is the decision that jumps, or null for a plain fall into the exit/header
+  | { kind: 'break'; stepId: number | null }
+  | { kind: 'continue'; stepId: number | null }
+  | { kind: 'end'; stepId: number };
+
+// Fallback when the jumps do not nest: one case per block, each naming the block to run next.
+export interface DispatchCase {
+  stepId: number;
+  next?: number | null;
+  yes?: number | null;
+  no?: number | null;
+}
+
+export type CodeStructure =
+  | { kind: 'structured'; startId: number | null; body: CodeNode[] }
+  | { kind: 'dispatch'; startId: number | null; cases: DispatchCase[] };
+
+class UnstructuredError extends Error {}
+
+interface LoopContext {
+  header: number;
+  exit: number | null;
+  body: Set<number>;
+}
+
+const EXIT = -1;
+
+export function structureFlowchart(steps: FlowchartStep[]): CodeStructure {
+  const byId = new Map(steps.map(s => [s.id, s]));
+  const start = steps.find(s => s.type === 'start') || steps[0];
+  if (!start) return { kind: 'structured', startId: null, body: [] };
+
+  // Successors with unknown targets treated as the end of the program
+  const successors = (id: number): (number | null)[] => {
+    const step = byId.get(id)!;
+    const target = (branch?: boolean) => {
+      const to = successorId(step, steps, branch);
+      return to != null && byId.has(to) ? to : null;
+    };
+    if (step.type === 'end') return [];
+    return step.type === 'decision' ? [target(true), target(false)] : [target()];
+  };
+
+  // Reachable blocks and back edges (edges to a block still on the DFS stack)
+  const reachable: number[] = [];
+  const latches = new Map<number, number[]>();
+  const state = new Map<number, 'open' | 'done'>();
+  const visit = (id: number) => {
+    state.set(id, 'open');
+    reachable.push(id);
+    for (const to of successors(id)) {
+      if (to == null) continue;
+      if (state.get(to) === 'open') latches.set(to, [...(latches.get(to) || []), id]);
+      else if (!state.has(to)) visit(to);
+    }
+    state.set(id, 'done');
+  };
+  visit(start.id);
+
+  const dispatch = (): CodeStructure => ({
+    kind: 'dispatch',
+    startId: start.id,
+    cases: reachable.map(id => {
+      const step = byId.get(id)!;
+      const [first, second] = successors(id);
+      if (step.type === 'end') return { stepId: id };
+      return step.type === 'decision' ? { stepId: id, yes: first, no: second } : { stepId: id, next: first };
+    }),
+  });
+
+  // Post-dominators over a virtual exit node, for finding where branches rejoin
+  const pdom = new Map<number, Set<number>>();
+  const all = new Set([...reachable, EXIT]);
+  reachable.forEach(id => pdom.set(id, new Set(all)));
+  pdom.set(EXIT, new Set([EXIT]));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const id of [...reachable].reverse()) {
+      const succ = successors(id).map(to => to ?? EXIT);
+      const targets = succ.length === 0 ? [EXIT] : succ;
+      const next = new Set([...pdom.get(targets[0])!].filter(n => targets.every(t => pdom.get(t)!.has(n))));
+      next.add(id);
+      if (next.size !== pdom.get(id)!.size) {
+        pdom.set(id, next);
+        changed = true;
+      }
+    }
+  }
+  const ipdom = (id: number): number | null => {
+    const dominators = pdom.get(id)!;
+    for (const candidate of dominators) {
+      if (candidate !== id && pdom.get(candidate)!.size === dominators.size - 1) return candidate === EXIT ? null : candidate;
+    }
+    return null;
+  };
+
+  const canReach = (from: number, target: number): boolean => {
+    const seen = new Set<number>();
+    const stack = [from];
+    while (stack.length) {
+      const id = stack.pop()!;
+      if (id === target) return true;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      successors(id).forEach(to => { if (to != null) stack.push(to); });
+    }
+    return false;
+  };
+
+  // Natural loop: the header plus every block that reaches a latch without passing through it
+  const loopBody = (header: number): Set<number> => {
+    const body = new Set([header]);
+    const stack = [...(latches.get(header) || [])];
+    while (stack.length) {
+      const id = stack.pop()!;
+      if (body.has(id)) continue;
+      body.add(id);
+      reachable.filter(p => successors(p).includes(id)).forEach(p => stack.push(p));
+    }
+    return body;
+  };
+
+  let emitted = 0;
+  const budget = reachable.length * 4 + 10;
+
+  const emitRegion = (from: number | null, until: number | null, loop: LoopContext | null, enteringHeader = false): CodeNode[] => {
+    const out: CodeNode[] = [];
+    let cur = from;
+    let first = true;
+    while (cur != null && (cur !== until || (first && enteringHeader))) {
+      if (++emitted > budget) throw new UnstructuredError();
+      if (loop && cur === loop.header && !(first && enteringHeader)) {
+        out.push({ kind: 'continue', stepId: null });
+        return out;
+      }
+      if (loop && cur === loop.exit) {
+        out.push({ kind: 'break', stepId: null });
+        return out;
+      }
+      // Leaving the loop any other way is only fine on a path that ends the program
+      if (loop && !loop.body.has(cur) && (canReach(cur, loop.header) || (loop.exit != null && canReach(cur, loop.exit)))) {
+        throw new UnstructuredError();
+      }
+      first = false;
+
+      const step = byId.get(cur)!;
+      if (latches.has(cur) && !(loop && loop.header === cur)) {
+        const [node, after] = emitLoop(cur);
+        out.push(node);
+        cur = after;
+        continue;
+      }
+      if (step.type === 'end') {
+        out.push({ kind: 'end', stepId: cur });
+        return out;
+      }
+      if (step.type !== 'decision') {
+        out.push({ kind: 'block', stepId: cur });
+        cur = successors(cur)[0];
+        continue;
+      }
+
+      const [yes, no] = successors(cur);
+      // A branch straight out of (or back round) the loop becomes break/continue
+      const jump = (target: number | null): CodeNode | null => {
+        if (!loop || target == null) return null;
+        if (target === loop.exit) return { kind: 'break', stepId: cur! };
+        if (target === loop.header) return { kind: 'continue', stepId: cur! };
+        return null;
+      };
+      const yesJump = jump(yes);
+      const noJump = jump(no);
+      if (yesJump && noJump) {
+        // At the end of the loop body a jump back to the header is implicit
+        if (until === loop!.header && yesJump.kind !== noJump.kind) {
+          const exitJump = yesJump.kind === 'break' ? yesJump : noJump;
+          out.push({ kind: 'if', stepId: cur, negate: exitJump === noJump, then: [exitJump], otherwise: [] });
+          return out;
+        }
+        out.push({ kind: 'if', stepId: cur, negate: false, then: [yesJump], otherwise: [noJump] });
+        return out;
+      }
+      if (yesJump || noJump) {
+        out.push({ kind: 'if', stepId: cur, negate: !yesJump, then: [(yesJump || noJump)!], otherwise: [] });
+        cur = yesJump ? no : yes;
+        continue;
+      }
+
+      let join = ipdom(cur);
+      // A join outside the loop means the branches leave it; each runs to its own break/end
+      if (loop && join != null && !loop.body.has(join)) join = loop.header;
+      const stop = join ?? (loop ? loop.header : null);
+      const thenBranch = emitRegion(yes, stop, loop);
+      const elseBranch = emitRegion(no, stop, loop);
+      if (thenBranch.length === 0 && elseBranch.length > 0) {
+        out.push({ kind: 'if', stepId: cur, negate: true, then: elseBranch, otherwise: [] });
+      } else {
+        out.push({ kind: 'if', stepId: cur, negate: false, then: thenBranch, otherwise: elseBranch });
+      }
+      if (loop && join === loop.header) return out;
+      cur = join;
+    }
+    return out;
+  };
+
+  // Returns the loop and the block that follows it
+  const emitLoop = (header: number): [CodeNode, number | null] => {
+    const body = loopBody(header);
+    const step = byId.get(header)!;
+    if (step.type === 'decision') {
+      const [yes, no] = successors(header);
+      const yesInside = yes != null && body.has(yes);
+      const noInside = no != null && body.has(no);
+      if (yesInside !== noInside) {
+        const exit = yesInside ? no : yes;
+        const loop: LoopContext = { header, exit, body };
+        return [{ kind: 'while', stepId: header, negate: !yesInside, body: emitRegion(yesInside ? yes : no, header, loop) }, exit];
+      }
+    }
+    // Prefer the block a latch decision leaves to, so "do ... while" ends in a break
+    const latchExits = (latches.get(header) || [])
+      .filter(id => byId.get(id)!.type === 'decision')
+      .flatMap(id => successors(id))
+      .filter((to): to is number => to != null && !body.has(to));
+    const follow = latchExits[0] ?? ipdom(header);
+    const exit = follow != null && !body.has(follow) ? follow : null;
+    const loop: LoopContext = { header, exit, body };
+    return [{ kind: 'while', stepId: null, negate: false, body: emitRegion(header, header, loop, true) }, exit];
+  };
+
+  try {
+    return { kind: 'structured', startId: start.id, body: emitRegion(start.type === 'start' ? successors(start.id)[0] : start.id, null, null) };
+  } catch (err) {
+    if (err instanceof UnstructuredError) return dispatch();
+    throw err;
+  }
+}
@@ -0,0 +1,466 @@
+import { CodeLanguage, FlowchartStep, GeneratedCode, GeneratedLine, VariableSpec } from "../types";
+import { BinaryOperator, Expr, Value, parseInputValue } from "./expression";
+import { Statement, parseStepStatements } from "./interpreter";
+import { CodeNode, DispatchCase, structureFlowchart } from "./codeStructure";
+import { parseTypedInput, variableNames } from "./variableTypes";
+
+// Prints the flowchart as structured pseudocode, Python or JavaScript. Every
+// line remembers which block it came from so the current dry-run step can be
+// highlighted in the code.
+
+export const CODE_LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  pseudocode: 'Pseudocode',
+  python: 'Python',
+  javascript: 'JavaScript',
+};
+
+export const CODE_FILE_NAMES: Record<CodeLanguage, string> = {
+  pseudocode: 'algorithm.txt',
+  python: 'algorithm.py',
+  javascript: 'algorithm.js',
+};
+
+// ---------------------------------------------------------------- expressions
+
+// Higher binds tighter
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  or: 1, and: 2,
+  '==': 4, '!=': 4, '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, div: 6, '%': 6,
+  '^': 8,
+};
+const ATOM = 9;
+
+const OPERATORS: Record<CodeLanguage, Partial<Record<BinaryOperator, string>>> = {
+  python: { '^': '**', div: '//' },
+  javascript: { '^': '**', '==': '===', '!=': '!==', and: '&&', or: '||' },
+  pseudocode: { '==': '=', '!=': '≠', '<=': '≤', '>=': '≥', and: 'AND', or: 'OR', div: 'DIV', '%': 'MOD' },
+};
+
+const PYTHON_CALLS: Record<string, string> = {
+  len: 'len', length: 'len', size: 'len', abs: 'abs', floor: 'math.floor', ceil: 'math.ceil', round: 'round',
+  sqrt: 'math.sqrt', pow: 'pow', int: 'int', float: 'float', str: 'str', min: 'min', max: 'max', sum: 'sum',
+};
+
+const JS_MATH_CALLS: Record<string, string> = {
+  abs: 'Math.abs', floor: 'Math.floor', ceil: 'Math.ceil', round: 'Math.round', sqrt: 'Math.sqrt', pow: 'Math.pow',
+};
+
+function printLiteral(value: Value, language: CodeLanguage): string {
+  if (Array.isArray(value)) return `[${value.map(v => printLiteral(v, language)).join(', ')}]`;
+  if (value === null) return language === 'python' ? 'None' : language === 'javascript' ? 'null' : 'NULL';
+  if (typeof value === 'boolean') {
+    if (language === 'python') return value ? 'True' : 'False';
+    return language === 'javascript' ? String(value) : value ? 'TRUE' : 'FALSE';
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+interface PrintContext {
+  language: CodeLanguage;
+  usesMath: boolean;
+}
+
+function printExpr(expr: Expr, ctx: PrintContext, minPrecedence = 0): string {
+  const [text, precedence] = printExprWithPrecedence(expr, ctx);
+  return precedence < minPrecedence ? `(${text})` : text;
+}
+
+function printExprWithPrecedence(expr: Expr, ctx: PrintContext): [string, number] {
+  const { language } = ctx;
+  switch (expr.kind) {
+    case 'literal':
+      return [printLiteral(expr.value, language), ATOM];
+    case 'array':
+      return [`[${expr.items.map(item => printExpr(item, ctx)).join(', ')}]`, ATOM];
+    case 'identifier':
+      return [expr.name, ATOM];
+    case 'index':
+      return [`${printExpr(expr.target, ctx, ATOM)}[${printExpr(expr.index, ctx)}]`, ATOM];
+    case 'call':
+      return [printCall(expr.callee, expr.args, ctx), ATOM];
+    case 'unary': {
+      if (expr.operator === '-') {
+        // JavaScript rejects "-x ** 2", so powers under a minus need brackets there
+        const operandMin = language === 'javascript' && expr.operand.kind === 'binary' && expr.operand.operator === '^' ? ATOM : 7;
+        return [`-${printExpr(expr.operand, ctx, operandMin)}`, 7];
+      }
+      if (language === 'javascript') return [`!${printExpr(expr.operand, ctx, 7)}`, 7];
+      // Bracket comparisons too: "not (a > b)" reads better than "not a > b"
+      return [`${language === 'python' ? 'not' : 'NOT'} ${printExpr(expr.operand, ctx, 5)}`, 3];
+    }
+    case 'binary': {
+      const precedence = PRECEDENCE[expr.operator];
+      if (language === 'javascript' && expr.operator === 'div') {
+        return [`Math.floor(${printExpr(expr.left, ctx, 6)} / ${printExpr(expr.right, ctx, 7)})`, ATOM];
+      }
+      const isComparison = precedence === 4;
+      const isPower = expr.operator === '^';
+      const leftMin = isComparison || isPower ? precedence + 1 : precedence;
+      const rightMin = isPower ? precedence : precedence + 1;
+      const left = printExpr(expr.left, ctx, language === 'javascript' && isPower ? ATOM : leftMin);
+      const operator = OPERATORS[language][expr.operator] ?? expr.operator;
+      return [`${left} ${operator} ${printExpr(expr.right, ctx, rightMin)}`, precedence];
+    }
+  }
+}
+
+function printCall(callee: string, args: Expr[], ctx: PrintContext): string {
+  const list = () => args.map(a => printExpr(a, ctx)).join(', ');
+  const name = callee.toLowerCase();
+  if (ctx.language === 'python') {
+    const mapped = PYTHON_CALLS[name] ?? callee;
+    if (mapped.startsWith('math.')) ctx.usesMath = true;
+    return `${mapped}(${list()})`;
+  }
+  if (ctx.language === 'pseudocode') return `${name === 'length' || name === 'size' ? 'len' : callee}(${list()})`;
+
+  const first = args[0] ? printExpr(args[0], ctx, ATOM) : '';
+  switch (name) {
+    case 'len': case 'length': case 'size': return `${first}.length`;
+    case 'int': return `Math.trunc(Number(${list()}))`;
+    case 'float': return `Number(${list()})`;
+    case 'str': return `String(${list()})`;
+    case 'min': case 'max': return `Math.${name}(${args.length === 1 ? `...${first}` : list()})`;
+    case 'sum': return `${first}.reduce((a, b) => a + b, 0)`;
+    default: return `${JS_MATH_CALLS[name] ?? callee}(${list()})`;
+  }
+}
+
+// ---------------------------------------------------------------- statements
+
+type Translation =
+  | { ok: true; statements: Statement[] }
+  | { ok: false };
+
+const sameExpr = (a: Expr, b: Expr) => JSON.stringify(a) === JSON.stringify(b);
+
+function printStatement(statement: Statement, ctx: PrintContext): string[] {
+  const { language } = ctx;
+  const semi = language === 'javascript' ? ';' : '';
+  switch (statement.kind) {
+    case 'assign': {
+      const target = printExpr(statement.target, ctx);
+      const { value } = statement;
+      if (language !== 'pseudocode' && value.kind === 'binary' && ['+', '-', '*', '/'].includes(value.operator) && sameExpr(value.left, statement.target)) {
+        return [`${target} ${value.operator}= ${printExpr(value.right, ctx, PRECEDENCE[value.operator] + 1)}${semi}`];
+      }
+      return [`${target} ${language === 'pseudocode' ? '←' : '='} ${printExpr(value, ctx)}${semi}`];
+    }
+    case 'swap': {
+      const left = printExpr(statement.left, ctx);
+      const right = printExpr(statement.right, ctx);
+      if (language === 'python') return [`${left}, ${right} = ${right}, ${left}`];
+      if (language === 'javascript') return [`[${left}, ${right}] = [${right}, ${left}];`];
+      return [`SWAP ${left}, ${right}`];
+    }
+    case 'input':
+      if (language === 'pseudocode') return [`INPUT ${statement.names.join(', ')}`];
+      return statement.names.map(name => (language === 'python' ? `${name} = inputs["${name}"]` : `${name} = inputs.${name};`));
+    case 'output': {
+      const values = statement.values.map(v => printExpr(v, ctx)).join(', ');
+      if (language === 'python') return [`print(${values})`];
+      if (language === 'javascript') return [`console.log(${values});`];
+      return [`OUTPUT ${values}`];
+    }
+    case 'condition':
+      return [printExpr(statement.test, ctx)];
+  }
+}
+
+function assignedNames(statements: Statement[]): string[] {
+  const root = (expr: Expr): string | null =>
+    expr.kind === 'identifier' ? expr.name : expr.kind === 'index' ? root(expr.target) : null;
+  return statements.flatMap(s => {
+    if (s.kind === 'input') return s.names;
+    if (s.kind === 'assign') return [root(s.target)].filter((n): n is string => !!n);
+    if (s.kind === 'swap') return [root(s.left), root(s.right)].filter((n): n is string => !!n);
+    return [];
+  });
+}
+
+// ---------------------------------------------------------------- programs
+
+interface Syntax {
+  indent: string;
+  comment: (text: string) => string;
+  ifOpen: (condition: string) => string;
+  elseIfOpen: (condition: string) => string;
+  elseOpen: string;
+  // Closes a block; null when indentation alone ends it
+  close: (kind: 'if' | 'while' | 'loop') => string | null;
+  whileOpen: (condition: string) => string;
+  foreverOpen: string;
+  breakLine: string;
+  continueLine: string;
+  endLine: string;
+  emptyBody: string | null;
+  untranslatedCondition: string;
+}
+
+const SYNTAX: Record<CodeLanguage, Syntax> = {
+  python: {
+    indent: '    ',
+    comment: text => `# ${text}`,
+    ifOpen: c => `if ${c}:`,
+    elseIfOpen: c => `elif ${c}:`,
+    elseOpen: 'else:',
+    close: () => null,
+    whileOpen: c => `while ${c}:`,
+    foreverOpen: 'while True:',
+    breakLine: 'break',
+    continueLine: 'continue',
+    endLine: 'return',
+    emptyBody: 'pass',
+    untranslatedCondition: 'False',
+  },
+  javascript: {
+    indent: '  ',
+    comment: text => `// ${text}`,
+    ifOpen: c => `if (${c}) {`,
+    elseIfOpen: c => `} else if (${c}) {`,
+    elseOpen: '} else {',
+    close: () => '}',
+    whileOpen: c => `while (${c}) {`,
+    foreverOpen: 'while (true) {',
+    breakLine: 'break;',
+    continueLine: 'continue;',
+    endLine: 'return;',
+    emptyBody: null,
+    untranslatedCondition: 'false',
+  },
+  pseudocode: {
+    indent: '  ',
+    comment: text => `// ${text}`,
+    ifOpen: c => `IF ${c} THEN`,
+    elseIfOpen: c => `ELSE IF ${c} THEN`,
+    elseOpen: 'ELSE',
+    close: kind => (kind === 'if' ? 'ENDIF' : kind === 'while' ? 'ENDWHILE' : 'ENDLOOP'),
+    whileOpen: c => `WHILE ${c} DO`,
+    foreverOpen: 'LOOP',
+    breakLine: 'EXIT LOOP',
+    continueLine: 'CONTINUE',
+    endLine: 'STOP',
+    emptyBody: null,
+    untranslatedCondition: 'FALSE',
+  },
+};
+
+class ProgramWriter {
+  lines: GeneratedLine[] = [];
+  private syntax: Syntax;
+
+  constructor(private ctx: PrintContext, private steps: Map<number, FlowchartStep>, private translations: Map<number, Translation>) {
+    this.syntax = SYNTAX[ctx.language];
+  }
+
+  line(depth: number, text: string, stepId: number | null) {
+    this.lines.push({ text: `${this.syntax.indent.repeat(depth)}${text}`, stepId });
+  }
+
+  // Condition of a decision, optionally negated; untranslatable text becomes a constant plus a TODO comment
+  condition(stepId: number, negate: boolean): { text: string; note?: string } {
+    const translation = this.translations.get(stepId);
+    const test = translation?.ok && translation.statements[0]?.kind === 'condition' ? translation.statements[0].test : null;
+    if (!test) return { text: this.syntax.untranslatedCondition, note: `TODO: ${this.steps.get(stepId)?.text}` };
+    return { text: printExpr(negate ? { kind: 'unary', operator: 'not', operand: test } : test, this.ctx) };
+  }
+
+  opener(depth: number, open: (c: string) => string, stepId: number, negate: boolean) {
+    const { text, note } = this.condition(stepId, negate);
+    this.line(depth, note ? `${open(text)}  ${this.syntax.comment(note)}` : open(text), stepId);
+  }
+
+  block(depth: number, stepId: number) {
+    const step = this.steps.get(stepId)!;
+    if (step.type === 'start') return;
+    const translation = this.translations.get(stepId);
+    if (!translation?.ok) {
+      step.text.split(/\r?\n/).forEach(text => this.line(depth, this.ctx.language === 'pseudocode' ? text : this.syntax.comment(`TODO: ${text}`), stepId));
+      return;
+    }
+    translation.statements.forEach(s => printStatement(s, this.ctx).forEach(text => this.line(depth, text, stepId)));
+  }
+
+  body(depth: number, nodes: CodeNode[]) {
+    const before = this.lines.length;
+    nodes.forEach(node => this.node(depth, node));
+    const onlyComments = this.lines.slice(before).every(l => l.text.trim().startsWith('#'));
+    if (this.syntax.emptyBody && onlyComments) this.line(depth, this.syntax.emptyBody, null);
+  }
+
+  node(depth: number, node: CodeNode) {
+    const { syntax } = this;
+    switch (node.kind) {
+      case 'block':
+        this.block(depth, node.stepId);
+        return;
+      case 'break':
+        this.line(depth, syntax.breakLine, node.stepId);
+        return;
+      case 'continue':
+        this.line(depth, syntax.continueLine, node.stepId);
+        return;
+      case 'end':
+        this.line(depth, syntax.endLine, node.stepId);
+        return;
+      case 'while': {
+        if (node.stepId == null) this.line(depth, syntax.foreverOpen, null);
+        else this.opener(depth, syntax.whileOpen, node.stepId, node.negate);
+        this.body(depth + 1, node.body);
+        const close = syntax.close(node.stepId == null ? 'loop' : 'while');
+        if (close) this.line(depth, close, null);
+        return;
+      }
+      case 'if': {
+        this.opener(depth, syntax.ifOpen, node.stepId, node.negate);
+        this.body(depth + 1, node.then);
+        let otherwise = node.otherwise;
+        // else-if chains read better than nested ifs
+        while (this.ctx.language !== 'pseudocode' && otherwise.length === 1 && otherwise[0].kind === 'if') {
+          const nested = otherwise[0];
+          this.opener(depth, syntax.elseIfOpen, nested.stepId, nested.negate);
+          this.body(depth + 1, nested.then);
+          otherwise = nested.otherwise;
+        }
+        if (otherwise.length > 0) {
+          this.line(depth, syntax.elseOpen, null);
+          this.body(depth + 1, otherwise);
+        }
+        const close = syntax.close('if');
+        if (close) this.line(depth, close, null);
+        return;
+      }
+    }
+  }
+
+  dispatch(depth: number, cases: DispatchCase[], startId: number | null) {
+    const { language } = this.ctx;
+    const target = (id: number | null | undefined) => (id == null ? null : id);
+    const jump = (d: number, to: number | null | undefined, stepId: number) => {
+      if (target(to) == null) this.line(d, this.syntax.endLine, stepId);
+      else if (language === 'python') this.line(d, `current_block = ${to}`, stepId);
+      else if (language === 'javascript') this.line(d, `currentBlock = ${to};`, stepId);
+      else this.line(d, `GOTO ${to}`, stepId);
+    };
+
+    this.line(depth, this.syntax.comment("The flowchart's jumps do not nest as if/while, so it runs block by block"), null);
+    if (language === 'pseudocode') {
+      for (const c of cases) {
+        this.line(depth, `${c.stepId}:`, c.stepId);
+        this.dispatchCase(depth + 1, c, jump);
+      }
+      return;
+    }
+
+    if (language === 'python') {
+      this.line(depth, `current_block = ${startId}`, null);
+      this.line(depth, 'while True:', null);
+      cases.forEach((c, i) => {
+        this.line(depth + 1, `${i === 0 ? 'if' : 'elif'} current_block == ${c.stepId}:`, c.stepId);
+        this.dispatchCase(depth + 2, c, jump);
+      });
+      return;
+    }
+
+    this.line(depth, `let currentBlock = ${startId};`, null);
+    this.line(depth, 'while (true) {', null);
+    this.line(depth + 1, 'switch (currentBlock) {', null);
+    for (const c of cases) {
+      this.line(depth + 2, `case ${c.stepId}:`, c.stepId);
+      const ends = this.dispatchCase(depth + 3, c, jump);
+      if (!ends) this.line(depth + 3, 'break;', null);
+    }
+    this.line(depth + 1, '}', null);
+    this.line(depth, '}', null);
+  }
+
+  // Returns true when the case always leaves the program
+  private dispatchCase(depth: number, c: DispatchCase, jump: (d: number, to: number | null | undefined, stepId: number) => void): boolean {
+    const step = this.steps.get(c.stepId)!;
+    if (step.type === 'end') {
+      this.line(depth, this.syntax.endLine, c.stepId);
+      return true;
+    }
+    if (step.type === 'decision') {
+      this.opener(depth, this.syntax.ifOpen, c.stepId, false);
+      jump(depth + 1, c.yes, c.stepId);
+      this.line(depth, this.syntax.elseOpen, null);
+      jump(depth + 1, c.no, c.stepId);
+      const close = this.syntax.close('if');
+      if (close) this.line(depth, close, null);
+      return c.yes == null && c.no == null;
+    }
+    this.block(depth, c.stepId);
+    jump(depth, c.next, c.stepId);
+    return c.next == null;
+  }
+}
+
+export function generateCode(steps: FlowchartStep[], variables: VariableSpec[], language: CodeLanguage, inputs: Record<string, string> = {}): GeneratedCode {
+  const byId = new Map(steps.map(s => [s.id, s]));
+  const translations = new Map<number, Translation>();
+  for (const step of steps) {
+    try {
+      translations.set(step.id, { ok: true, statements: parseStepStatements(step, variableNames(variables)) });
+    } catch {
+      translations.set(step.id, { ok: false });
+    }
+  }
+
+  const structure = structureFlowchart(steps);
+  const ctx: PrintContext = { language, usesMath: false };
+  const writer = new ProgramWriter(ctx, byId, translations);
+  if (structure.kind === 'structured') writer.body(1, structure.body);
+  else writer.dispatch(1, structure.cases, structure.startId);
+  const bodyLines = writer.lines;
+
+  const allStatements = [...translations.values()].flatMap(t => (t.ok ? t.statements : []));
+  const inputNames = [...new Set(allStatements.flatMap(s => (s.kind === 'input' ? s.names : [])))];
+  const inputLiteral = (name: string) => {
+    const spec = variables.find(v => v.name === name);
+    if (!spec) return printLiteral(inputs[name] ? parseInputValue(inputs[name]) : null, language);
+    const parsed = parseTypedInput(inputs[name], spec.type);
+    return printLiteral(parsed.ok ? parsed.value : null, language);
+  };
+  const lines: GeneratedLine[] = [];
+  const add = (text: string, stepId: number | null = null) => lines.push({ text, stepId });
+
+  if (language === 'python') {
+    if (ctx.usesMath) {
+      add('import math');
+      add('');
+    }
+    if (inputNames.length > 0) {
+      add(`inputs = {${inputNames.map(n => `"${n}": ${inputLiteral(n)}`).join(', ')}}`);
+      add('');
+    }
+    add('');
+    add('def main():', structure.startId);
+    lines.push(...bodyLines);
+    add('');
+    add('');
+    add('main()');
+  } else if (language === 'javascript') {
+    if (inputNames.length > 0) {
+      add(`const inputs = { ${inputNames.map(n => `${n}: ${inputLiteral(n)}`).join(', ')} };`);
+      add('');
+    }
+    add('function main() {', structure.startId);
+    const declared = [...new Set(allStatements.flatMap(s => assignedNames([s])))];
+    if (declared.length > 0) add(`  let ${declared.join(', ')};`);
+    lines.push(...bodyLines);
+    add('}');
+    add('');
+    add('main();');
+  } else {
+    add('BEGIN', structure.startId);
+    lines.push(...bodyLines);
+    add('END');
+  }
+
+  // Drop the blank line left at the top when there is no preamble
+  while (lines.length > 0 && lines[0].text === '') lines.shift();
+  return { language, lines, structured: structure.kind === 'structured' };
+}
@@ -0,0 +1,425 @@
+import { FlowchartStep, ParseResult, ShapeType, VariableSpec } from "../types";
+import { getEdges } from "./flowGraph";
+import { splitTopLevel } from "./interpreter";
+import { validateParseResult } from "./responseValidator";
+import { VARIABLE_ROLES, VARIABLE_TYPES, inferVariableSpecs, normalizeVariables } from "./variableTypes";
+
+// Converts flowcharts to and from Mermaid `flowchart TD` and Graphviz DOT, so
+// they can go into slides and docs and course material can be loaded without
+// an AI parse.
+
+export type DiagramFormat = "mermaid" | "dot";
+
+export class DiagramImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiagramImportError";
+  }
+}
+
+// Shape as drawn, before we decide which block type it stands for
+type DrawnShape = "terminal" | "parallelogram" | "diamond" | "box";
+
+interface DiagramNode {
+  key: string;
+  text: string;
+  shape?: DrawnShape;
+}
+
+interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+}
+
+interface DiagramGraph {
+  nodes: Map<string, DiagramNode>;
+  edges: DiagramEdge[];
+  variables?: Partial<VariableSpec>[];
+}
+
+const nodeKey = (id: number) => `n${id}`;
+
+// ---------------------------------------------------------------- export
+
+function mermaidText(text: string): string {
+  return `"${text.replace(/"/g, "#quot;").replace(/\r?\n/g, "<br/>")}"`;
+}
+
+const MERMAID_SHAPES: Record<ShapeType, [string, string]> = {
+  start: ["([", "])"],
+  end: ["([", "])"],
+  process: ["[", "]"],
+  decision: ["{", "}"],
+  input: ["[/", "/]"],
+  output: ["[/", "/]"],
+};
+
+// "n (integer), fact (integer, internal)"
+function variablesComment(variables: VariableSpec[]): string {
+  return variables.map(v => `${v.name} (${v.role === "internal" ? `${v.type}, internal` : v.type})`).join(", ");
+}
+
+export function toMermaid(flowchart: ParseResult): string {
+  const steps = flowchart.digital_flowchart;
+  const lines = ["flowchart TD"];
+  if (flowchart.variables.length > 0) lines.push(`  %% variables: ${variablesComment(flowchart.variables)}`);
+  for (const step of steps) {
+    const [open, close] = MERMAID_SHAPES[step.type];
+    lines.push(`  ${nodeKey(step.id)}${open}${mermaidText(step.text)}${close}`);
+  }
+  for (const edge of getEdges(steps)) {
+    const label = edge.label ? `|${mermaidText(edge.label)}|` : "";
+    lines.push(`  ${nodeKey(edge.from)} -->${label} ${nodeKey(edge.to)}`);
+  }
+  return lines.join("\n");
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`;
+}
+
+const DOT_SHAPES: Record<ShapeType, string> = {
+  start: "ellipse",
+  end: "ellipse",
+  process: "box",
+  decision: "diamond",
+  input: "parallelogram",
+  output: "parallelogram",
+};
+
+export function toDot(flowchart: ParseResult): string {
+  const steps = flowchart.digital_flowchart;
+  const lines = ["digraph flowchart {", "  rankdir=TB;", '  node [fontname="Helvetica"];'];
+  if (flowchart.variables.length > 0) lines.push(`  // variables: ${variablesComment(flowchart.variables)}`);
+  for (const step of steps) {
+    lines.push(`  ${nodeKey(step.id)} [label=${dotString(step.text)}, shape=${DOT_SHAPES[step.type]}];`);
+  }
+  for (const edge of getEdges(steps)) {
+    const label = edge.label ? ` [label=${dotString(edge.label)}]` : "";
+    lines.push(`  ${nodeKey(edge.from)} -> ${nodeKey(edge.to)}${label};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+export function exportDiagram(flowchart: ParseResult, format: DiagramFormat): string {
+  return format === "mermaid" ? toMermaid(flowchart) : toDot(flowchart);
+}
+
+// ---------------------------------------------------------------- import
+
+// Plain names are fine too; a type or role in brackets is optional
+function parseVariablesComment(line: string): Partial<VariableSpec>[] | undefined {
+  const match = /^(?:%%|\/\/|#)\s*variables\s*:\s*(.*)$/i.exec(line.trim());
+  if (!match) return undefined;
+  return splitTopLevel(match[1], ",").map(v => v.trim()).filter(Boolean).map(entry => {
+    const parts = /^([^(\s]+)\s*(?:\((.*)\))?/.exec(entry);
+    if (!parts) throw new DiagramImportError(`Cannot read the variable "${entry}"; write it as name (type, role).`);
+    const [, name, details = ""] = parts;
+    const words = details.toLowerCase().split(/[\s,]+/);
+    return {
+      name,
+      type: VARIABLE_TYPES.find(t => words.includes(t)),
+      role: VARIABLE_ROLES.find(r => words.includes(r)),
+    };
+  });
+}
+
+function addNode(graph: DiagramGraph, key: string, text?: string, shape?: DrawnShape) {
+  const existing = graph.nodes.get(key);
+  if (!existing) {
+    graph.nodes.set(key, { key, text: text ?? key, shape });
+  } else {
+    if (text !== undefined) existing.text = text;
+    if (shape) existing.shape = shape;
+  }
+}
+
+// Mermaid node shapes, longest delimiters first so "([" wins over "(" and "[".
+const MERMAID_NODE_SHAPES: [string, string, DrawnShape][] = [
+  ["([", "])", "terminal"],
+  ["((", "))", "terminal"],
+  ["[[", "]]", "box"],
+  ["[(", ")]", "box"],
+  ["[/", "/]", "parallelogram"],
+  ["[\\", "\\]", "parallelogram"],
+  ["[/", "\\]", "parallelogram"],
+  ["[\\", "/]", "parallelogram"],
+  ["{{", "}}", "box"],
+  ["{", "}", "diamond"],
+  ["(", ")", "terminal"],
+  ["[", "]", "box"],
+  [">", "]", "box"],
+];
+
+function unquoteMermaid(text: string): string {
+  const trimmed = text.trim();
+  const unquoted = /^".*"$/s.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+  return unquoted.replace(/#quot;/g, '"').replace(/<br\s*\/?>/gi, "\n").trim();
+}
+
+// Reads one "A[text]" node reference from the start of `source`.
+function readMermaidNode(source: string): { key: string; text?: string; shape?: DrawnShape; rest: string } | null {
+  const idMatch = /^\s*([A-Za-z0-9_][\w-]*)/.exec(source);
+  if (!idMatch) return null;
+  const key = idMatch[1];
+  const afterId = source.slice(idMatch[0].length);
+  for (const [open, close, shape] of MERMAID_NODE_SHAPES) {
+    if (!afterId.startsWith(open)) continue;
+    // Quoted text may itself contain brackets
+    const quoteEnd = afterId[open.length] === '"' ? afterId.indexOf('"', open.length + 1) : -1;
+    const end = afterId.indexOf(close, quoteEnd >= 0 ? quoteEnd + 1 : open.length);
+    if (end < 0) continue;
+    return { key, text: unquoteMermaid(afterId.slice(open.length, end)), shape, rest: afterId.slice(end + close.length) };
+  }
+  return { key, rest: afterId };
+}
+
+// Arrow with an optional label: "-->", "-->|Yes|", "-- Yes -->", "-.->", "==>", "---"
+const MERMAID_LINK = /^\s*(?:(?:--|==|-\.)\s*([^|>-][^>]*?)\s*(?:-->|==>|\.->|---))|^\s*(?:-->|==>|-\.->|---|-\.-|===)(?:\s*\|([^|]*)\|)?/;
+
+function parseMermaid(source: string): DiagramGraph {
+  const graph: DiagramGraph = { nodes: new Map(), edges: [] };
+  const lines = source.split(/\r?\n/);
+  let sawHeader = false;
+
+  lines.forEach((raw, lineIndex) => {
+    const line = raw.trim().replace(/;$/, "");
+    if (!line) return;
+    const variables = parseVariablesComment(line);
+    if (variables) {
+      graph.variables = variables;
+      return;
+    }
+    if (line.startsWith("%%")) return;
+    if (!sawHeader && /^(?:flowchart|graph)\b/i.test(line)) {
+      sawHeader = true;
+      return;
+    }
+    if (/^(?:classDef|class|style|linkStyle|click|direction|subgraph)\b/.test(line) || line === "end") return;
+
+    let rest = line;
+    let previous: string | null = null;
+    let pendingLabel: string | undefined;
+    while (rest.trim()) {
+      const node = readMermaidNode(rest);
+      if (!node) throw new DiagramImportError(`Mermaid line ${lineIndex + 1}: cannot read "${rest.trim()}"`);
+      addNode(graph, node.key, node.text, node.shape);
+      if (previous) graph.edges.push({ from: previous, to: node.key, label: pendingLabel });
+      previous = node.key;
+      rest = node.rest;
+      if (!rest.trim()) break;
+      // "A --> B; B --> C" puts two statements on one line
+      if (/^\s*;/.test(rest)) {
+        rest = rest.replace(/^\s*;/, "");
+        previous = null;
+        pendingLabel = undefined;
+        continue;
+      }
+
+      const link = MERMAID_LINK.exec(rest);
+      if (!link) throw new DiagramImportError(`Mermaid line ${lineIndex + 1}: expected an arrow before "${rest.trim()}"`);
+      const label = link[1] ?? link[2];
+      pendingLabel = label ? unquoteMermaid(label) || undefined : undefined;
+      rest = rest.slice(link[0].length);
+    }
+  });
+
+  if (!sawHeader) throw new DiagramImportError('A Mermaid flowchart must start with "flowchart TD" or "graph TD".');
+  return graph;
+}
+
+// Splits DOT source into tokens: identifiers, numbers, quoted strings and punctuation.
+function tokenizeDot(source: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\s+|\/\/[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/|"(?:\\.|[^"\\])*"|<[^>]*>|->|--|[{}\[\];,=]|[A-Za-z0-9_.\u0080-\uffff]+/gy;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < source.length) {
+    const start = pattern.lastIndex;
+    match = pattern.exec(source);
+    if (!match) throw new DiagramImportError(`DOT: unexpected character "${source[start]}"`);
+    const token = match[0];
+    if (/^\s/.test(token) || token.startsWith("//") || token.startsWith("#") || token.startsWith("/*")) continue;
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+function dotValue(token: string): string {
+  if (token.startsWith('"')) {
+    return token.slice(1, -1).replace(/\\n|\\l|\\r/g, "\n").replace(/\\(.)/g, "$1").trim();
+  }
+  if (token.startsWith("<")) return token.slice(1, -1).replace(/<[^>]*>/g, "").trim();
+  return token;
+}
+
+const DOT_SHAPE_KINDS: Record<string, DrawnShape> = {
+  diamond: "diamond",
+  mdiamond: "terminal",
+  msquare: "terminal",
+  ellipse: "terminal",
+  oval: "terminal",
+  circle: "terminal",
+  doublecircle: "terminal",
+  parallelogram: "parallelogram",
+  box: "box",
+  rect: "box",
+  rectangle: "box",
+  square: "box",
+};
+
+function parseDot(source: string): DiagramGraph {
+  const graph: DiagramGraph = { nodes: new Map(), edges: [] };
+  const variables = source.split(/\r?\n/).map(parseVariablesComment).find(Boolean);
+  if (variables) graph.variables = variables;
+
+  const tokens = tokenizeDot(source);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new DiagramImportError(`DOT: expected "${token}"`);
+  };
+
+  if (peek()?.toLowerCase() === "strict") next();
+  const kind = next()?.toLowerCase();
+  if (kind !== "digraph" && kind !== "graph") throw new DiagramImportError('A DOT file must start with "digraph".');
+  if (peek() !== "{") next();
+  expect("{");
+
+  const readAttributes = (): Record<string, string> => {
+    const attrs: Record<string, string> = {};
+    while (peek() === "[") {
+      next();
+      while (peek() !== "]") {
+        if (peek() === undefined) throw new DiagramImportError('DOT: missing "]"');
+        const name = next().toLowerCase();
+        if (peek() === "=") {
+          next();
+          attrs[name] = dotValue(next());
+        }
+        if (peek() === "," || peek() === ";") next();
+      }
+      next();
+    }
+    return attrs;
+  };
+
+  while (peek() !== "}") {
+    if (peek() === undefined) throw new DiagramImportError('DOT: missing closing "}"');
+    if (peek() === ";") {
+      next();
+      continue;
+    }
+    const first = next();
+    const lower = first.toLowerCase();
+    if ((lower === "graph" || lower === "node" || lower === "edge") && peek() === "[") {
+      readAttributes();
+      continue;
+    }
+    if (lower === "subgraph" || first === "{" || first === "}") {
+      throw new DiagramImportError("DOT: subgraphs are not supported.");
+    }
+    if (peek() === "=") {
+      // Graph attribute such as rankdir=TB
+      next();
+      next();
+      continue;
+    }
+
+    const chain = [dotValue(first)];
+    while (peek() === "->" || peek() === "--") {
+      next();
+      chain.push(dotValue(next()));
+    }
+    const attrs = readAttributes();
+    if (chain.length === 1) {
+      addNode(graph, chain[0], attrs.label, DOT_SHAPE_KINDS[(attrs.shape || "").toLowerCase()]);
+    } else {
+      chain.forEach(key => addNode(graph, key));
+      for (let i = 1; i < chain.length; i++) {
+        graph.edges.push({ from: chain[i - 1], to: chain[i], label: attrs.label || attrs.xlabel });
+      }
+    }
+  }
+  return graph;
+}
+
+// ---------------------------------------------------------------- graph -> ParseResult
+
+const START_TEXT = /^(?:start|begin)\b/i;
+const END_TEXT = /^(?:end|stop|finish|halt)\b/i;
+const INPUT_TEXT = /^(?:read|input|get|enter|accept|take|scan)\b/i;
+const OUTPUT_TEXT = /^(?:print|display|output|write|show|return)\b/i;
+const YES_LABEL = /^(?:yes|y|true|t)$/i;
+const NO_LABEL = /^(?:no|n|false|f)$/i;
+
+function blockType(node: DiagramNode, incoming: number, outgoing: number): ShapeType {
+  const text = node.text.trim();
+  if (node.shape === "diamond") return "decision";
+  if (node.shape === "parallelogram") return OUTPUT_TEXT.test(text) ? "output" : "input";
+  if (START_TEXT.test(text) && incoming === 0) return "start";
+  if (END_TEXT.test(text) && outgoing === 0) return "end";
+  if (node.shape === "terminal") return incoming === 0 ? "start" : outgoing === 0 ? "end" : "process";
+  if (INPUT_TEXT.test(text)) return "input";
+  if (OUTPUT_TEXT.test(text)) return "output";
+  return "process";
+}
+
+function graphToParseResult(graph: DiagramGraph): ParseResult {
+  const nodes = [...graph.nodes.values()];
+  if (nodes.length === 0) throw new DiagramImportError("The diagram has no nodes.");
+  const ids = new Map(nodes.map((node, i) => [node.key, i + 1]));
+  const outgoing = (key: string) => graph.edges.filter(e => e.from === key);
+  const incoming = (key: string) => graph.edges.filter(e => e.to === key);
+
+  const steps = nodes.map(node => {
+    const out = outgoing(node.key);
+    const type = blockType(node, incoming(node.key).length, out.length);
+    const step: FlowchartStep = { id: ids.get(node.key)!, type, text: node.text };
+
+    if (type === "end") {
+      if (out.length > 0) throw new DiagramImportError(`"${node.text}" is an end block but has outgoing arrows.`);
+      step.next = null;
+    } else if (type === "decision") {
+      if (out.length !== 2) throw new DiagramImportError(`Decision "${node.text}" needs exactly two outgoing arrows, found ${out.length}.`);
+      // Labelled Yes/No arrows decide the branches; otherwise the first arrow is Yes
+      let [yes, no] = out;
+      if (NO_LABEL.test(yes.label || "") || YES_LABEL.test(no.label || "")) [yes, no] = [no, yes];
+      step.yes = ids.get(yes.to)!;
+      step.no = ids.get(no.to)!;
+      if (yes.label && !YES_LABEL.test(yes.label)) step.yes_label = yes.label;
+      if (no.label && !NO_LABEL.test(no.label)) step.no_label = no.label;
+    } else {
+      if (out.length > 1) throw new DiagramImportError(`"${node.text}" has ${out.length} outgoing arrows; only decisions may branch.`);
+      step.next = out.length === 1 ? ids.get(out[0].to)! : null;
+      if (out[0]?.label) step.next_label = out[0].label;
+    }
+    return step;
+  });
+
+  // Keep the start block first, as parsed flowcharts have it
+  steps.sort((a, b) => (a.type === "start" ? -1 : 0) - (b.type === "start" ? -1 : 0));
+  const variables = graph.variables ? normalizeVariables(graph.variables, steps) : inferVariableSpecs(steps);
+  const result: ParseResult = { variables, digital_flowchart: steps };
+  const violations = validateParseResult(result);
+  if (violations.length > 0) {
+    throw new DiagramImportError(`The diagram is not a complete flowchart: ${violations.slice(0, 3).map(v => v.message).join("; ")}.`);
+  }
+  return result;
+}
+
+export function detectDiagramFormat(source: string): DiagramFormat | null {
+  const firstLine = source.split(/\r?\n/).map(l => l.trim()).find(l => l && !l.startsWith("%%") && !l.startsWith("//") && !l.startsWith("#"));
+  if (!firstLine) return null;
+  if (/^(?:strict\s+)?(?:di)?graph\b[^\n]*\{/i.test(firstLine) || /^(?:strict\s+)?digraph\b/i.test(firstLine)) return "dot";
+  if (/^(?:flowchart|graph)\s+(?:TD|TB|BT|LR|RL)\b/i.test(firstLine) || /^(?:flowchart|graph)\s*$/i.test(firstLine)) return "mermaid";
+  return null;
+}
+
+export function importDiagram(source: string): ParseResult {
+  const format = detectDiagramFormat(source);
+  if (!format) throw new DiagramImportError('Paste a Mermaid "flowchart TD" diagram or a Graphviz "digraph { ... }".');
+  return graphToParseResult(format === "mermaid" ? parseMermaid(source) : parseDot(source));
+}
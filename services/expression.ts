@@ -0,0 +1,453 @@
+// Tokenizer, parser and evaluator for the small expression language used inside
+// flowchart blocks ("fact * i", "a[j] > a[j + 1]", "n mod 2 == 0", ...).
+
+export type Value = number | string | boolean | null | Value[];
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | 'div' | '%' | '^'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | 'and' | 'or';
+
+export type Expr =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'array'; items: Expr[] }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'index'; target: Expr; index: Expr }
+  | { kind: 'call'; callee: string; args: Expr[] }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: Expr }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expr; right: Expr };
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'word'; value: string }
+  | { type: 'op'; value: string };
+
+const MULTI_CHAR_OPS = ['**', '//', '<=', '>=', '==', '!=', '<>', '&&', '||'];
+const SINGLE_CHAR_OPS = '+-*/%^<>=!()[],.';
+const UNICODE_OPS: Record<string, string> = { '≤': '<=', '≥': '>=', '≠': '!=', '×': '*', '÷': '/', '−': '-' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^\d*\.?\d+(?:[eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'word', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === '“' || ch === '‘') {
+      const close = ch === '“' ? '”' : ch === '‘' ? '’' : ch;
+      const end = source.indexOf(close, i + 1);
+      if (end === -1) throw new ExpressionError(`Unterminated string in "${source}"`);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (MULTI_CHAR_OPS.includes(two)) {
+      tokens.push({ type: 'op', value: two === '<>' ? '!=' : two });
+      i += 2;
+      continue;
+    }
+    if (UNICODE_OPS[ch]) {
+      tokens.push({ type: 'op', value: UNICODE_OPS[ch] });
+      i++;
+      continue;
+    }
+    if (SINGLE_CHAR_OPS.includes(ch)) {
+      tokens.push({ type: 'op', value: ch });
+      i++;
+      continue;
+    }
+    throw new ExpressionError(`Unexpected character '${ch}' in "${source}"`);
+  }
+  return tokens;
+}
+
+const KEYWORD_LITERALS: Record<string, Value> = {
+  true: true, True: true, TRUE: true,
+  false: false, False: false, FALSE: false,
+  null: null, None: null, NULL: null,
+};
+
+const COMPARISON_OPS: Record<string, BinaryOperator> = {
+  '==': '==', '=': '==', '!=': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=',
+};
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parse(): Expr {
+    const expr = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new ExpressionError(`Unexpected '${this.describe(this.tokens[this.pos])}' in "${this.source}"`);
+    }
+    return expr;
+  }
+
+  private describe(token: Token): string {
+    return String(token.value);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(value: string): boolean {
+    const t = this.peek();
+    return !!t && t.type === 'op' && t.value === value;
+  }
+
+  private isWord(...values: string[]): boolean {
+    const t = this.peek();
+    return !!t && t.type === 'word' && values.includes(t.value.toLowerCase());
+  }
+
+  private expectOp(value: string) {
+    if (!this.isOp(value)) {
+      const t = this.peek();
+      throw new ExpressionError(`Expected '${value}' but found ${t ? `'${this.describe(t)}'` : 'end of input'} in "${this.source}"`);
+    }
+    this.pos++;
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.isOp('||') || this.isWord('or')) {
+      this.pos++;
+      left = { kind: 'binary', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.isOp('&&') || this.isWord('and')) {
+      this.pos++;
+      left = { kind: 'binary', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.isOp('!') || this.isWord('not')) {
+      this.pos++;
+      return { kind: 'unary', operator: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    let left = this.parseAdditive();
+    while (true) {
+      const t = this.peek();
+      if (!t || t.type !== 'op' || !COMPARISON_OPS[t.value]) break;
+      this.pos++;
+      left = { kind: 'binary', operator: COMPARISON_OPS[t.value], left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    while (this.isOp('+') || this.isOp('-')) {
+      const operator = this.tokens[this.pos++].value as '+' | '-';
+      left = { kind: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    while (true) {
+      let operator: BinaryOperator | null = null;
+      if (this.isOp('*')) operator = '*';
+      else if (this.isOp('/')) operator = '/';
+      else if (this.isOp('//') || this.isWord('div')) operator = 'div';
+      else if (this.isOp('%') || this.isWord('mod')) operator = '%';
+      if (!operator) break;
+      this.pos++;
+      left = { kind: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    if (this.isOp('-')) {
+      this.pos++;
+      return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    if (this.isOp('+')) {
+      this.pos++;
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Expr {
+    const base = this.parsePostfix();
+    if (this.isOp('^') || this.isOp('**')) {
+      this.pos++;
+      // Right associative: 2 ^ 3 ^ 2 == 2 ^ 9
+      return { kind: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePostfix(): Expr {
+    let expr = this.parsePrimary();
+    while (true) {
+      if (this.isOp('[')) {
+        this.pos++;
+        const index = this.parseOr();
+        this.expectOp(']');
+        expr = { kind: 'index', target: expr, index };
+      } else if (this.isOp('.') && this.tokens[this.pos + 1]?.type === 'word') {
+        const property = String(this.tokens[this.pos + 1].value);
+        if (!['length', 'size'].includes(property.toLowerCase())) {
+          throw new ExpressionError(`Unsupported property '.${property}' in "${this.source}"`);
+        }
+        this.pos += 2;
+        expr = { kind: 'call', callee: 'len', args: [expr] };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parsePrimary(): Expr {
+    const t = this.peek();
+    if (!t) throw new ExpressionError(`Unexpected end of expression in "${this.source}"`);
+
+    if (t.type === 'number' || t.type === 'string') {
+      this.pos++;
+      return { kind: 'literal', value: t.value };
+    }
+
+    if (t.type === 'word') {
+      this.pos++;
+      if (Object.hasOwn(KEYWORD_LITERALS, t.value)) return { kind: 'literal', value: KEYWORD_LITERALS[t.value] };
+      if (this.isOp('(')) {
+        this.pos++;
+        const args: Expr[] = [];
+        if (!this.isOp(')')) {
+          args.push(this.parseOr());
+          while (this.isOp(',')) {
+            this.pos++;
+            args.push(this.parseOr());
+          }
+        }
+        this.expectOp(')');
+        return { kind: 'call', callee: t.value.toLowerCase(), args };
+      }
+      return { kind: 'identifier', name: t.value };
+    }
+
+    if (t.value === '(') {
+      this.pos++;
+      const inner = this.parseOr();
+      this.expectOp(')');
+      return inner;
+    }
+
+    if (t.value === '[') {
+      this.pos++;
+      const items: Expr[] = [];
+      if (!this.isOp(']')) {
+        items.push(this.parseOr());
+        while (this.isOp(',')) {
+          this.pos++;
+          items.push(this.parseOr());
+        }
+      }
+      this.expectOp(']');
+      return { kind: 'array', items };
+    }
+
+    throw new ExpressionError(`Unexpected '${this.describe(t)}' in "${this.source}"`);
+  }
+}
+
+export function parseExpression(source: string): Expr {
+  return new Parser(tokenize(source), source).parse();
+}
+
+export function valuesEqual(a: Value, b: Value): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  return a === b;
+}
+
+export function formatValue(value: Value): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function asNumber(value: Value, context: string): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  throw new ExpressionError(`Expected a number for ${context} but got ${JSON.stringify(value)}`);
+}
+
+function asIndex(target: Value[] | string, value: Value): number {
+  const index = asNumber(value, 'an index');
+  if (!Number.isInteger(index) || index < 0 || index >= target.length) {
+    throw new ExpressionError(`Index ${index} is out of range for length ${target.length}`);
+  }
+  return index;
+}
+
+const BUILTINS: Record<string, (args: Value[]) => Value> = {
+  len: ([v]) => {
+    if (typeof v === 'string' || Array.isArray(v)) return v.length;
+    throw new ExpressionError(`len() expects an array or string but got ${JSON.stringify(v)}`);
+  },
+  abs: ([v]) => Math.abs(asNumber(v, 'abs()')),
+  floor: ([v]) => Math.floor(asNumber(v, 'floor()')),
+  ceil: ([v]) => Math.ceil(asNumber(v, 'ceil()')),
+  round: ([v]) => Math.round(asNumber(v, 'round()')),
+  sqrt: ([v]) => Math.sqrt(asNumber(v, 'sqrt()')),
+  pow: ([a, b]) => Math.pow(asNumber(a, 'pow()'), asNumber(b, 'pow()')),
+  int: ([v]) => Math.trunc(typeof v === 'string' ? Number(v) : asNumber(v, 'int()')),
+  float: ([v]) => (typeof v === 'string' ? Number(v) : asNumber(v, 'float()')),
+  str: ([v]) => formatValue(v),
+  min: (args) => Math.min(...(args.length === 1 && Array.isArray(args[0]) ? args[0] : args).map(v => asNumber(v, 'min()'))),
+  max: (args) => Math.max(...(args.length === 1 && Array.isArray(args[0]) ? args[0] : args).map(v => asNumber(v, 'max()'))),
+  sum: ([v]) => (Array.isArray(v) ? v : [v]).reduce<number>((acc, item) => acc + asNumber(item, 'sum()'), 0),
+};
+BUILTINS.length = BUILTINS.len;
+BUILTINS.size = BUILTINS.len;
+
+export function isBuiltin(name: string): boolean {
+  return Object.hasOwn(BUILTINS, name.toLowerCase());
+}
+
+function compare(operator: BinaryOperator, left: Value, right: Value): boolean {
+  if (typeof left === 'string' && typeof right === 'string') {
+    switch (operator) {
+      case '<': return left < right;
+      case '<=': return left <= right;
+      case '>': return left > right;
+      default: return left >= right;
+    }
+  }
+  const l = asNumber(left, `'${operator}'`);
+  const r = asNumber(right, `'${operator}'`);
+  switch (operator) {
+    case '<': return l < r;
+    case '<=': return l <= r;
+    case '>': return l > r;
+    default: return l >= r;
+  }
+}
+
+export function evaluate(expr: Expr, env: Record<string, Value>): Value {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'array':
+      return expr.items.map(item => evaluate(item, env));
+    case 'identifier':
+      if (!Object.hasOwn(env, expr.name) || env[expr.name] === undefined) {
+        throw new ExpressionError(`Variable '${expr.name}' is used before it has a value`);
+      }
+      return env[expr.name];
+    case 'index': {
+      const target = evaluate(expr.target, env);
+      if (!Array.isArray(target) && typeof target !== 'string') {
+        throw new ExpressionError(`Cannot index into ${JSON.stringify(target)}`);
+      }
+      return target[asIndex(target, evaluate(expr.index, env))];
+    }
+    case 'call': {
+      // Own keys only, so names like "constructor" are not mistaken for builtins
+      const fn = Object.hasOwn(BUILTINS, expr.callee) ? BUILTINS[expr.callee] : undefined;
+      if (!fn) throw new ExpressionError(`Unknown function '${expr.callee}'`);
+      return fn(expr.args.map(arg => evaluate(arg, env)));
+    }
+    case 'unary': {
+      const operand = evaluate(expr.operand, env);
+      return expr.operator === 'not' ? !truthy(operand) : -asNumber(operand, 'negation');
+    }
+    case 'binary': {
+      if (expr.operator === 'and') return truthy(evaluate(expr.left, env)) && truthy(evaluate(expr.right, env));
+      if (expr.operator === 'or') return truthy(evaluate(expr.left, env)) || truthy(evaluate(expr.right, env));
+
+      const left = evaluate(expr.left, env);
+      const right = evaluate(expr.right, env);
+      switch (expr.operator) {
+        case '==': return valuesEqual(left, right);
+        case '!=': return !valuesEqual(left, right);
+        case '<': case '<=': case '>': case '>=':
+          return compare(expr.operator, left, right);
+        case '+':
+          if (typeof left === 'string' || typeof right === 'string') return formatValue(left) + formatValue(right);
+          if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+          return asNumber(left, "'+'") + asNumber(right, "'+'");
+        case '-': return asNumber(left, "'-'") - asNumber(right, "'-'");
+        case '*': return asNumber(left, "'*'") * asNumber(right, "'*'");
+        case '/': {
+          const divisor = asNumber(right, "'/'");
+          if (divisor === 0) throw new ExpressionError('Division by zero');
+          return asNumber(left, "'/'") / divisor;
+        }
+        case 'div': {
+          const divisor = asNumber(right, "'div'");
+          if (divisor === 0) throw new ExpressionError('Division by zero');
+          return Math.floor(asNumber(left, "'div'") / divisor);
+        }
+        case '%': {
+          const divisor = asNumber(right, "'mod'");
+          if (divisor === 0) throw new ExpressionError('Modulo by zero');
+          return asNumber(left, "'mod'") % divisor;
+        }
+        case '^': return Math.pow(asNumber(left, "'^'"), asNumber(right, "'^'"));
+      }
+    }
+  }
+}
+
+export function truthy(value: Value): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+export function evaluateExpression(source: string, env: Record<string, Value>): Value {
+  return evaluate(parseExpression(source), env);
+}
+
+// Turns a raw text field ("5", "[3, 1, 2]", "true", "hello") into a typed value.
+// Anything that is not a literal expression is kept as a plain string.
+export function parseInputValue(raw: string): Value {
+  const trimmed = raw.trim();
+  if (trimmed === '') return '';
+  try {
+    return evaluate(parseExpression(trimmed), {});
+  } catch {
+    return trimmed;
+  }
+}
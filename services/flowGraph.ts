@@ -0,0 +1,67 @@
+import { EdgeBranch, FlowEdge, FlowchartStep } from "../types";
+
+// Control-flow helpers for the digital flowchart. A block that does not name a
+// successor falls through to the next block in array order (this is also how
+// flowcharts parsed before edges existed behave); only a decision's "No" branch
+// has no such fallback.
+
+function fallthroughId(step: FlowchartStep, steps: FlowchartStep[]): number | undefined {
+  const index = steps.findIndex(s => s.id === step.id);
+  return index >= 0 && index + 1 < steps.length ? steps[index + 1].id : undefined;
+}
+
+export function getStepById(steps: FlowchartStep[], id: number): FlowchartStep | undefined {
+  return steps.find(s => s.id === id);
+}
+
+export function branchLabel(step: FlowchartStep, branch: EdgeBranch): string | undefined {
+  if (branch === 'yes') return step.yes_label || 'Yes';
+  if (branch === 'no') return step.no_label || 'No';
+  return step.next_label || undefined;
+}
+
+export function getOutgoingEdges(step: FlowchartStep, steps: FlowchartStep[]): FlowEdge[] {
+  if (step.type === 'end') return [];
+  const edge = (branch: EdgeBranch, to: number | null | undefined): FlowEdge[] =>
+    to == null ? [] : [{ from: step.id, to, branch, label: branchLabel(step, branch) }];
+
+  if (step.type === 'decision') {
+    return [
+      ...edge('yes', step.yes === undefined ? fallthroughId(step, steps) : step.yes),
+      ...edge('no', step.no),
+    ];
+  }
+  return edge('next', step.next === undefined ? fallthroughId(step, steps) : step.next);
+}
+
+export function getEdges(steps: FlowchartStep[]): FlowEdge[] {
+  return steps.flatMap(step => getOutgoingEdges(step, steps));
+}
+
+// Where execution goes after `step`. `branch` is the outcome of a decision.
+// Returns null when the flowchart ends here and undefined when the target is unknown.
+export function successorId(step: FlowchartStep, steps: FlowchartStep[], branch?: boolean): number | null | undefined {
+  if (step.type === 'end') return null;
+  const wanted: EdgeBranch = step.type === 'decision' ? (branch ? 'yes' : 'no') : 'next';
+  const edge = getOutgoingEdges(step, steps).find(e => e.branch === wanted);
+  if (edge) return edge.to;
+  if (wanted === 'next' && (step.next === null || fallthroughId(step, steps) === undefined)) return null;
+  return undefined;
+}
+
+export function findTransition(steps: FlowchartStep[], fromId: number, toId: number): FlowEdge | undefined {
+  const from = getStepById(steps, fromId);
+  return from ? getOutgoingEdges(from, steps).find(e => e.to === toId) : undefined;
+}
+
+// Indices i where trace[i - 1] -> trace[i] does not follow any edge of the flowchart.
+export function findIllegalTransitions(steps: FlowchartStep[], stepIds: number[]): number[] {
+  const illegal: number[] = [];
+  for (let i = 1; i < stepIds.length; i++) {
+    const from = getStepById(steps, stepIds[i - 1]);
+    // A decision without a known "No" target cannot rule anything out.
+    if (from && from.type === 'decision' && from.no == null) continue;
+    if (!findTransition(steps, stepIds[i - 1], stepIds[i])) illegal.push(i);
+  }
+  return illegal;
+}
@@ -0,0 +1,335 @@
+import { EdgeBranch, FlowchartStep, ShapeType } from "../types";
+import { getEdges } from "./flowGraph";
+
+// Layered (Sugiyama-style) layout for the flowchart graph:
+//   1. break cycles by reversing DFS back edges (loops),
+//   2. assign layers by longest path,
+//   3. add dummy nodes so every forward edge spans one layer,
+//   4. order each layer with barycenter sweeps to reduce crossings,
+//   5. assign x coordinates by median alignment, then route edges orthogonally.
+// Back edges are drawn as separate lanes beside the chart.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LayoutNode {
+  id: number;
+  type: ShapeType;
+  lines: string[];
+  x: number; // center
+  y: number; // center
+  width: number;
+  height: number;
+  layer: number;
+}
+
+export interface LayoutEdge {
+  from: number;
+  to: number;
+  branch: EdgeBranch;
+  label?: string;
+  isBackEdge: boolean;
+  points: Point[];
+  labelAt?: Point;
+}
+
+export interface FlowLayout {
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+  width: number;
+  height: number;
+}
+
+const LAYER_GAP = 56;
+const NODE_GAP = 48;
+const MARGIN = 40;
+const LANE_GAP = 18;
+const LINE_HEIGHT = 14;
+const CHAR_WIDTH = 6.6;
+
+const SHAPE_WIDTH: Record<ShapeType, number> = {
+  start: 120,
+  end: 120,
+  process: 170,
+  input: 180,
+  output: 180,
+  decision: 190,
+};
+
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of (text || '').split(/\s+/).filter(Boolean)) {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [''];
+}
+
+function measure(step: FlowchartStep): Pick<LayoutNode, 'lines' | 'width' | 'height'> {
+  const width = SHAPE_WIDTH[step.type] ?? SHAPE_WIDTH.process;
+  // Only about half of a diamond's width is usable for text
+  const usable = step.type === 'decision' ? width * 0.55 : width - 36;
+  const lines = wrapText(step.text, Math.max(6, Math.floor(usable / CHAR_WIDTH)));
+  const textHeight = lines.length * LINE_HEIGHT;
+  if (step.type === 'decision') return { lines, width, height: Math.max(90, textHeight * 2 + 24) };
+  if (step.type === 'start' || step.type === 'end') return { lines, width, height: Math.max(44, textHeight + 24) };
+  return { lines, width, height: Math.max(52, textHeight + 26) };
+}
+
+interface Slot {
+  key: string;
+  nodeId: number | null; // null for dummy nodes
+  layer: number;
+  width: number;
+  x: number;
+}
+
+export function computeFlowLayout(steps: FlowchartStep[]): FlowLayout {
+  if (steps.length === 0) return { nodes: [], edges: [], width: 0, height: 0 };
+
+  const ids = new Set(steps.map(s => s.id));
+  const edges = getEdges(steps).filter(e => ids.has(e.to));
+  const outgoing = new Map<number, number[]>();
+  for (const s of steps) outgoing.set(s.id, []);
+  for (const e of edges) outgoing.get(e.from)!.push(e.to);
+
+  // 1. Back edges: edges that close a cycle during DFS from the start block
+  const backEdges = new Set<string>();
+  const visitState = new Map<number, 'active' | 'done'>();
+  const discovery: number[] = [];
+  const dfs = (id: number) => {
+    visitState.set(id, 'active');
+    discovery.push(id);
+    for (const to of outgoing.get(id)!) {
+      const seen = visitState.get(to);
+      if (seen === 'active') backEdges.add(`${id}->${to}`);
+      else if (!seen) dfs(to);
+    }
+    visitState.set(id, 'done');
+  };
+  const start = steps.find(s => s.type === 'start') || steps[0];
+  dfs(start.id);
+  for (const s of steps) if (!visitState.has(s.id)) dfs(s.id);
+
+  const isBack = (from: number, to: number) => backEdges.has(`${from}->${to}`) || from === to;
+  const forward = edges.filter(e => !isBack(e.from, e.to));
+
+  // 2. Longest-path layering over the now acyclic graph
+  const layer = new Map<number, number>();
+  const indegree = new Map<number, number>();
+  for (const s of steps) indegree.set(s.id, 0);
+  for (const e of forward) indegree.set(e.to, indegree.get(e.to)! + 1);
+  const queue = discovery.filter(id => indegree.get(id) === 0);
+  for (const id of queue) layer.set(id, 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const e of forward.filter(f => f.from === id)) {
+      layer.set(e.to, Math.max(layer.get(e.to) ?? 0, layer.get(id)! + 1));
+      indegree.set(e.to, indegree.get(e.to)! - 1);
+      if (indegree.get(e.to) === 0) queue.push(e.to);
+    }
+  }
+
+  const measured = new Map(steps.map(s => [s.id, measure(s)]));
+  const layerCount = Math.max(...Array.from(layer.values())) + 1;
+  const layers: Slot[][] = Array.from({ length: layerCount }, () => []);
+  const slotByKey = new Map<string, Slot>();
+  const addSlot = (slot: Slot) => {
+    layers[slot.layer].push(slot);
+    slotByKey.set(slot.key, slot);
+  };
+  for (const id of discovery) {
+    addSlot({ key: `n${id}`, nodeId: id, layer: layer.get(id)!, width: measured.get(id)!.width, x: 0 });
+  }
+
+  // 3. Dummy slots for long forward edges; chains[i] lists the slot keys an edge passes through
+  const chains = new Map<string, string[]>();
+  const links: [string, string][] = [];
+  for (const e of forward) {
+    const chain = [`n${e.from}`];
+    for (let l = layer.get(e.from)! + 1; l < layer.get(e.to)!; l++) {
+      const key = `d${e.from}-${e.to}-${e.branch}-${l}`;
+      addSlot({ key, nodeId: null, layer: l, width: 12, x: 0 });
+      chain.push(key);
+    }
+    chain.push(`n${e.to}`);
+    chains.set(`${e.from}->${e.to}:${e.branch}`, chain);
+    for (let i = 1; i < chain.length; i++) links.push([chain[i - 1], chain[i]]);
+  }
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  for (const [a, b] of links) {
+    down.set(a, [...(down.get(a) || []), b]);
+    up.set(b, [...(up.get(b) || []), a]);
+  }
+
+  // 4. Barycenter ordering
+  const position = new Map<string, number>();
+  const reindex = () => layers.forEach(row => row.forEach((slot, i) => position.set(slot.key, i)));
+  reindex();
+  const sweep = (rows: Slot[][], neighbours: Map<string, string[]>) => {
+    for (const row of rows) {
+      const weight = new Map<string, number>();
+      for (const slot of row) {
+        const adj = neighbours.get(slot.key) || [];
+        weight.set(slot.key, adj.length > 0
+          ? adj.reduce((sum, k) => sum + position.get(k)!, 0) / adj.length
+          : position.get(slot.key)!);
+      }
+      row.sort((a, b) => weight.get(a.key)! - weight.get(b.key)!);
+      row.forEach((slot, i) => position.set(slot.key, i));
+    }
+  };
+  for (let i = 0; i < 4; i++) {
+    sweep(layers.slice(1), up);
+    sweep(layers.slice(0, -1).reverse(), down);
+  }
+
+  // 5. x coordinates: pull each slot towards the median of its neighbours, then resolve overlaps
+  for (const row of layers) {
+    let x = 0;
+    for (const slot of row) {
+      slot.x = x + slot.width / 2;
+      x += slot.width + NODE_GAP;
+    }
+  }
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  };
+  const align = (row: Slot[], neighbours: Map<string, string[]>) => {
+    const desired = row.map(slot => {
+      const adj = neighbours.get(slot.key) || [];
+      return adj.length > 0 ? median(adj.map(k => slotByKey.get(k)!.x)) : slot.x;
+    });
+    // Place left to right without overlap, then shift back so the row is centred on its wishes
+    const placed: number[] = [];
+    row.forEach((slot, i) => {
+      const min = i === 0 ? -Infinity : placed[i - 1] + row[i - 1].width / 2 + NODE_GAP + slot.width / 2;
+      placed.push(Math.max(desired[i], min));
+    });
+    const shift = desired.reduce((sum, d, i) => sum + d - placed[i], 0) / row.length;
+    row.forEach((slot, i) => { slot.x = placed[i] + shift; });
+  };
+  for (let i = 0; i < 3; i++) {
+    layers.slice(1).forEach(row => align(row, up));
+    layers.slice(0, -1).reverse().forEach(row => align(row, down));
+  }
+  layers.slice(1).forEach(row => align(row, up));
+
+  // y coordinates from the tallest node of each layer
+  const layerTop: number[] = [];
+  const layerHeight: number[] = [];
+  let y = MARGIN;
+  for (const row of layers) {
+    const height = Math.max(20, ...row.filter(s => s.nodeId !== null).map(s => measured.get(s.nodeId!)!.height));
+    layerTop.push(y);
+    layerHeight.push(height);
+    y += height + LAYER_GAP;
+  }
+
+  const minX = Math.min(...layers.flat().map(s => s.x - s.width / 2));
+  for (const slot of layers.flat()) slot.x += MARGIN - minX;
+  const centerY = (l: number) => layerTop[l] + layerHeight[l] / 2;
+
+  const nodes: LayoutNode[] = steps.map(step => {
+    const slot = slotByKey.get(`n${step.id}`)!;
+    return { id: step.id, type: step.type, ...measured.get(step.id)!, x: slot.x, y: centerY(slot.layer), layer: slot.layer };
+  });
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+
+  // Edge routing
+  const routed: LayoutEdge[] = [];
+  for (const e of forward) {
+    const chain = chains.get(`${e.from}->${e.to}:${e.branch}`)!;
+    const source = nodeById.get(e.from)!;
+    const target = nodeById.get(e.to)!;
+    const firstX = slotByKey.get(chain[1])!.x;
+    const points: Point[] = [];
+    let labelAt: Point | undefined;
+
+    if (source.type === 'decision' && Math.abs(firstX - source.x) > source.width / 4) {
+      // Leave a diamond through its left or right corner, then drop down
+      const side = firstX < source.x ? -1 : 1;
+      const port = { x: source.x + side * source.width / 2, y: source.y };
+      points.push(port, { x: firstX, y: port.y });
+      labelAt = { x: port.x + side * 14, y: port.y - 8 };
+    } else {
+      const port = { x: source.x, y: source.y + source.height / 2 };
+      points.push(port);
+      labelAt = { x: port.x + 14, y: port.y + 14 };
+    }
+    for (let i = 1; i < chain.length; i++) {
+      const slot = slotByKey.get(chain[i])!;
+      const prev = points[points.length - 1];
+      const isTarget = i === chain.length - 1;
+      const topY = isTarget ? target.y - target.height / 2 : centerY(slot.layer);
+      const midY = layerTop[slot.layer] - LAYER_GAP / 2;
+      if (Math.abs(prev.x - slot.x) > 0.5) {
+        if (prev.y < midY) points.push({ x: prev.x, y: midY });
+        points.push({ x: slot.x, y: Math.max(midY, prev.y) });
+      }
+      points.push({ x: slot.x, y: topY });
+    }
+    routed.push({ from: e.from, to: e.to, branch: e.branch, label: e.label, isBackEdge: false, points: dedupe(points), labelAt });
+  }
+
+  // Back edges leave the source on whichever side has fewer neighbours, climb a dedicated
+  // lane and rejoin the target from above. Shorter loops get the inner lanes.
+  const back = edges
+    .filter(e => isBack(e.from, e.to))
+    .sort((a, b) => (nodeById.get(a.from)!.layer - nodeById.get(a.to)!.layer) - (nodeById.get(b.from)!.layer - nodeById.get(b.to)!.layer));
+  const lanesUsed = { left: 0, right: 0 };
+  for (const e of back) {
+    const source = nodeById.get(e.from)!;
+    const target = nodeById.get(e.to)!;
+    const row = nodes.filter(n => n.layer === source.layer && n.id !== source.id);
+    const side = row.filter(n => n.x < source.x).length < row.filter(n => n.x > source.x).length ? -1 : 1;
+    const spanned = nodes.filter(n => n.layer >= target.layer && n.layer <= source.layer);
+    const lane = side === 1 ? ++lanesUsed.right : ++lanesUsed.left;
+    const laneX = side === 1
+      ? Math.max(...spanned.map(n => n.x + n.width / 2)) + LANE_GAP * lane
+      : Math.min(...spanned.map(n => n.x - n.width / 2)) - LANE_GAP * lane;
+    const inset = source.type === 'input' || source.type === 'output' ? 8 : 0;
+    const sourcePort = { x: source.x + side * (source.width / 2 - inset), y: source.y };
+    const joinY = target.y - target.height / 2 - LAYER_GAP / 2 + 6 * (lane - 1) / Math.max(1, back.length);
+    routed.push({
+      from: e.from, to: e.to, branch: e.branch, label: e.label, isBackEdge: true,
+      points: [
+        sourcePort,
+        { x: laneX, y: sourcePort.y },
+        { x: laneX, y: joinY },
+        { x: target.x, y: joinY },
+        { x: target.x, y: target.y - target.height / 2 },
+      ],
+      labelAt: { x: sourcePort.x + side * 14, y: sourcePort.y - 8 },
+    });
+  }
+
+  // Left-hand lanes may have pushed the drawing past the margin
+  const allX = [...nodes.map(n => n.x - n.width / 2), ...routed.flatMap(r => r.points.map(p => p.x))];
+  const shift = Math.max(0, MARGIN - Math.min(...allX));
+  if (shift > 0) {
+    for (const n of nodes) n.x += shift;
+    for (const r of routed) {
+      r.points = r.points.map(p => ({ x: p.x + shift, y: p.y }));
+      if (r.labelAt) r.labelAt = { x: r.labelAt.x + shift, y: r.labelAt.y };
+    }
+  }
+  const right = Math.max(...nodes.map(n => n.x + n.width / 2), ...routed.flatMap(r => r.points.map(p => p.x)));
+
+  return { nodes, edges: routed, width: right + MARGIN, height: y - LAYER_GAP + MARGIN };
+}
+
+function dedupe(points: Point[]): Point[] {
+  return points.filter((p, i) => i === 0 || Math.abs(p.x - points[i - 1].x) > 0.5 || Math.abs(p.y - points[i - 1].y) > 0.5);
+}
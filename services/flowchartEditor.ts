@@ -0,0 +1,190 @@
+import { EdgeBranch, FlowchartStep, ParseResult, ShapeType, VariableRole, VariableSpec, VariableType } from "../types";
+import { getOutgoingEdges } from "./flowGraph";
+
+// Pure edit operations behind the flowchart editor. Every operation returns a
+// new ParseResult so the editor can keep the old ones for undo.
+
+export const SHAPE_LABELS: Record<ShapeType, string> = {
+  start: "Start",
+  process: "Process",
+  decision: "Decision",
+  input: "Input",
+  output: "Output",
+  end: "End",
+};
+
+const DEFAULT_TEXT: Record<ShapeType, string> = {
+  start: "Start",
+  process: "x = x + 1",
+  decision: "Is x > 0?",
+  input: "Input x",
+  output: "Print x",
+  end: "End",
+};
+
+export const BLANK_FLOWCHART: ParseResult = {
+  variables: [],
+  digital_flowchart: [
+    { id: 1, type: "start", text: "Start", next: 2 },
+    { id: 2, type: "end", text: "End", next: null },
+  ],
+};
+
+// Spell out every edge, including array-order fallthroughs, so that adding or
+// reordering blocks in the editor never silently changes where control goes.
+export function materializeEdges(steps: FlowchartStep[]): FlowchartStep[] {
+  return steps.map(step => {
+    const edges = getOutgoingEdges(step, steps);
+    const target = (branch: EdgeBranch) => edges.find(e => e.branch === branch)?.to ?? null;
+    if (step.type === "decision") return { ...step, next: undefined, yes: target("yes"), no: target("no") };
+    return { ...step, next: target("next"), yes: undefined, no: undefined };
+  });
+}
+
+function updateSteps(flowchart: ParseResult, steps: FlowchartStep[]): ParseResult {
+  return { ...flowchart, digital_flowchart: steps };
+}
+
+function nextId(steps: FlowchartStep[]): number {
+  return steps.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+}
+
+// Inserts a block after `afterId`, splicing it into that block's outgoing edge.
+export function addStep(flowchart: ParseResult, type: ShapeType, afterId: number | null): { flowchart: ParseResult; id: number } {
+  const steps = flowchart.digital_flowchart;
+  const id = nextId(steps);
+  const after = afterId == null ? undefined : steps.find(s => s.id === afterId);
+  const step: FlowchartStep = { id, type, text: DEFAULT_TEXT[type] };
+
+  let updated = steps;
+  if (after && after.type !== "end") {
+    const branch = after.type === "decision" ? "yes" : "next";
+    const continuation = after[branch] ?? null;
+    updated = steps.map(s => (s.id === after.id ? { ...s, [branch]: id } : s));
+    if (type === "decision") {
+      step.yes = continuation;
+      step.no = null;
+    } else if (type !== "end") {
+      step.next = continuation;
+    }
+  } else if (type === "decision") {
+    step.yes = null;
+    step.no = null;
+  } else {
+    step.next = null;
+  }
+
+  const index = after ? updated.findIndex(s => s.id === after.id) + 1 : updated.length;
+  return { flowchart: updateSteps(flowchart, [...updated.slice(0, index), step, ...updated.slice(index)]), id };
+}
+
+// Removes a block. Edges into it are redirected to its successor when it has
+// exactly one, otherwise they are left unconnected.
+export function deleteStep(flowchart: ParseResult, id: number): ParseResult {
+  const steps = flowchart.digital_flowchart;
+  const removed = steps.find(s => s.id === id);
+  if (!removed) return flowchart;
+  const bypass = removed.type === "decision" || removed.type === "end" ? null : removed.next ?? null;
+  const retarget = (target: number | null | undefined) => (target === id ? (bypass === id ? null : bypass) : target);
+  return updateSteps(flowchart, steps
+    .filter(s => s.id !== id)
+    .map(s => ({ ...s, next: retarget(s.next), yes: retarget(s.yes), no: retarget(s.no) })));
+}
+
+export function updateStepText(flowchart: ParseResult, id: number, text: string): ParseResult {
+  return updateSteps(flowchart, flowchart.digital_flowchart.map(s => (s.id === id ? { ...s, text } : s)));
+}
+
+// Changing the shape keeps the flow intact: a block's single successor becomes
+// a decision's Yes branch and vice versa.
+export function retypeStep(flowchart: ParseResult, id: number, type: ShapeType): ParseResult {
+  return updateSteps(flowchart, flowchart.digital_flowchart.map(s => {
+    if (s.id !== id || s.type === type) return s;
+    const { next, yes, no, next_label, yes_label, no_label, ...rest } = s;
+    if (type === "decision") return { ...rest, type, yes: next ?? null, no: null };
+    if (type === "end") return { ...rest, type, next: null };
+    return { ...rest, type, next: (s.type === "decision" ? yes : next) ?? null };
+  }));
+}
+
+export function setEdge(flowchart: ParseResult, fromId: number, branch: EdgeBranch, toId: number | null): ParseResult {
+  return updateSteps(flowchart, flowchart.digital_flowchart.map(s => (s.id === fromId ? { ...s, [branch]: toId } : s)));
+}
+
+export function setEdgeLabel(flowchart: ParseResult, fromId: number, branch: EdgeBranch, label: string): ParseResult {
+  const key = `${branch}_label` as const;
+  return updateSteps(flowchart, flowchart.digital_flowchart.map(s => (s.id === fromId ? { ...s, [key]: label || undefined } : s)));
+}
+
+export function addVariable(flowchart: ParseResult, name: string): ParseResult {
+  const trimmed = name.trim();
+  if (!trimmed || flowchart.variables.some(v => v.name === trimmed)) return flowchart;
+  return { ...flowchart, variables: [...flowchart.variables, { name: trimmed, type: "integer", role: "input" }] };
+}
+
+function updateVariable(flowchart: ParseResult, index: number, patch: Partial<VariableSpec>): ParseResult {
+  return { ...flowchart, variables: flowchart.variables.map((v, i) => (i === index ? { ...v, ...patch } : v)) };
+}
+
+export function renameVariable(flowchart: ParseResult, index: number, name: string): ParseResult {
+  return updateVariable(flowchart, index, { name });
+}
+
+export function setVariableType(flowchart: ParseResult, index: number, type: VariableType): ParseResult {
+  return updateVariable(flowchart, index, { type });
+}
+
+export function setVariableRole(flowchart: ParseResult, index: number, role: VariableRole): ParseResult {
+  return updateVariable(flowchart, index, { role });
+}
+
+export function removeVariable(flowchart: ParseResult, index: number): ParseResult {
+  return { ...flowchart, variables: flowchart.variables.filter((_, i) => i !== index) };
+}
+
+// The parse validator tolerates a missing "next" mid-chart (it means "stop
+// here"); in the editor that is almost always a forgotten connection.
+export function findConnectionProblems(steps: FlowchartStep[]): string[] {
+  return steps
+    .filter(s => s.type !== "end" && s.type !== "decision" && s.next == null && s !== steps[steps.length - 1])
+    .map(s => `Block #${s.id}: has no next block`);
+}
+
+export function findVariableProblems(variables: VariableSpec[]): string[] {
+  const problems: string[] = [];
+  variables.forEach(({ name }, i) => {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) problems.push(`Variable "${name}" is not a valid name`);
+    else if (variables.findIndex(v => v.name === name) !== i) problems.push(`Variable "${name}" is listed twice`);
+  });
+  return problems;
+}
+
+export interface EditHistory {
+  past: ParseResult[];
+  present: ParseResult;
+  future: ParseResult[];
+  // Consecutive edits with the same key (typing into one field) undo as one
+  lastKey?: string;
+}
+
+const MAX_HISTORY = 100;
+
+export function startHistory(flowchart: ParseResult): EditHistory {
+  return { past: [], present: flowchart, future: [] };
+}
+
+export function pushHistory(history: EditHistory, next: ParseResult, key?: string): EditHistory {
+  if (next === history.present) return history;
+  if (key && key === history.lastKey) return { ...history, present: next, future: [] };
+  return { past: [...history.past, history.present].slice(-MAX_HISTORY), present: next, future: [], lastKey: key };
+}
+
+export function undo(history: EditHistory): EditHistory {
+  if (history.past.length === 0) return history;
+  return { past: history.past.slice(0, -1), present: history.past[history.past.length - 1], future: [history.present, ...history.future] };
+}
+
+export function redo(history: EditHistory): EditHistory {
+  if (history.future.length === 0) return history;
+  return { past: [...history.past, history.present], present: history.future[0], future: history.future.slice(1) };
+}
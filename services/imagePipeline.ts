@@ -0,0 +1,201 @@
+// Turns uploads and camera frames into the page images sent to the model.
+// Every page is a data URL carrying its real MIME type, at most
+// MAX_IMAGE_DIMENSION pixels on its longer side to keep requests small.
+
+export const MAX_PAGES = 10;
+export const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+// HEIC files often arrive without a MIME type, so the extensions are listed too
+export const IMAGE_FILE_ACCEPT = "image/*,.heic,.heif,application/pdf";
+
+export class ImageInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageInputError";
+  }
+}
+
+// Identifies a file by its first bytes; browsers leave File.type empty for HEIC and misname some uploads
+export function sniffMimeType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0x89 && ascii(1, 4) === "PNG") return "image/png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(0, 4) === "GIF8") return "image/gif";
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+  if (ascii(4, 8) === "ftyp" && /^(heic|heix|hevc|heim|heis|mif1|msf1)$/.test(ascii(8, 12))) return "image/heic";
+  return null;
+}
+
+// The type named in a data URL, or sniffed from the data for bare base64
+export function dataUrlMimeType(image: string): string {
+  const header = /^data:([^;,]+)[;,]/.exec(image);
+  if (header) return header[1];
+  try {
+    const head = atob(image.slice(0, 24));
+    return sniffMimeType(Uint8Array.from(head, c => c.charCodeAt(0))) || "image/jpeg";
+  } catch {
+    return "image/jpeg";
+  }
+}
+
+const readAsDataURL = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new ImageInputError("The image could not be decoded."));
+    image.src = src;
+  });
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+}
+
+function context(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new ImageInputError("This browser cannot process images.");
+  return ctx;
+}
+
+// Line drawings stay lossless; photos become JPEG
+const encodeCanvas = (canvas: HTMLCanvasElement, mimeType: string) =>
+  mimeType === "image/png" ? canvas.toDataURL("image/png") : canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+
+function fitWithin(canvas: HTMLCanvasElement, maxDimension = MAX_IMAGE_DIMENSION): HTMLCanvasElement {
+  const scale = maxDimension / Math.max(canvas.width, canvas.height);
+  if (scale >= 1) return canvas;
+  const scaled = createCanvas(canvas.width * scale, canvas.height * scale);
+  const ctx = context(scaled);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(canvas, 0, 0, scaled.width, scaled.height);
+  return scaled;
+}
+
+export async function downscaleImage(dataUrl: string): Promise<string> {
+  const image = await loadImage(dataUrl);
+  const mimeType = dataUrlMimeType(dataUrl);
+  const fits = Math.max(image.naturalWidth, image.naturalHeight) <= MAX_IMAGE_DIMENSION;
+  if (fits && ["image/png", "image/jpeg", "image/webp"].includes(mimeType)) return dataUrl;
+  const canvas = createCanvas(image.naturalWidth, image.naturalHeight);
+  context(canvas).drawImage(image, 0, 0);
+  return encodeCanvas(fitWithin(canvas), mimeType);
+}
+
+async function heicToJpeg(file: Blob): Promise<Blob> {
+  const { default: heic2any } = await import("heic2any");
+  const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: JPEG_QUALITY });
+  return Array.isArray(converted) ? converted[0] : converted;
+}
+
+async function pdfPages(file: Blob, limit: number): Promise<string[]> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  try {
+    for (let n = 1; n <= Math.min(pdf.numPages, limit); n++) {
+      const page = await pdf.getPage(n);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: MAX_IMAGE_DIMENSION / Math.max(width, height) });
+      const canvas = createCanvas(viewport.width, viewport.height);
+      await page.render({ canvasContext: context(canvas), viewport }).promise;
+      pages.push(canvas.toDataURL("image/png"));
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+}
+
+// One page per image and per PDF page, in the order given, up to `limit` pages
+export async function filesToPages(files: File[], limit = MAX_PAGES): Promise<string[]> {
+  const pages: string[] = [];
+  for (const file of files) {
+    if (pages.length >= limit) break;
+    const mimeType = sniffMimeType(new Uint8Array(await file.slice(0, 16).arrayBuffer())) || file.type;
+    if (mimeType === "application/pdf") {
+      pages.push(...await pdfPages(file, limit - pages.length));
+    } else if (mimeType === "image/heic" || mimeType === "image/heif" || /\.hei[cf]$/i.test(file.name)) {
+      pages.push(await downscaleImage(await readAsDataURL(await heicToJpeg(file))));
+    } else if (mimeType.startsWith("image/")) {
+      pages.push(await downscaleImage(await readAsDataURL(file)));
+    } else {
+      throw new ImageInputError(`${file.name} is not an image or a PDF.`);
+    }
+  }
+  return pages;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Fractions (0-1) of the rotated image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  rotation: Rotation;
+  // 1 leaves the image unchanged; higher values darken pencil lines against the paper
+  contrast: number;
+  crop: CropRect | null;
+}
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = { rotation: 0, contrast: 1, crop: null };
+
+// Rotates, then crops, then adjusts contrast
+export function preprocessImage(source: HTMLCanvasElement, options: PreprocessOptions): HTMLCanvasElement {
+  const quarterTurn = options.rotation === 90 || options.rotation === 270;
+  const rotated = createCanvas(quarterTurn ? source.height : source.width, quarterTurn ? source.width : source.height);
+  const ctx = context(rotated);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate((options.rotation * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+
+  let result = rotated;
+  const { crop } = options;
+  if (crop && crop.width > 0 && crop.height > 0) {
+    result = createCanvas(crop.width * rotated.width, crop.height * rotated.height);
+    context(result).drawImage(
+      rotated,
+      crop.x * rotated.width, crop.y * rotated.height, result.width, result.height,
+      0, 0, result.width, result.height
+    );
+  }
+
+  if (options.contrast !== 1) {
+    const resultCtx = context(result);
+    const pixels = resultCtx.getImageData(0, 0, result.width, result.height);
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+      for (let c = 0; c < 3; c++) data[i + c] = (data[i + c] - 128) * options.contrast + 128;
+    }
+    resultCtx.putImageData(pixels, 0, 0);
+  }
+  return result;
+}
+
+// Scaled down right away, so preprocessing previews stay quick
+export function frameFromVideo(video: HTMLVideoElement): HTMLCanvasElement {
+  const canvas = createCanvas(video.videoWidth, video.videoHeight);
+  context(canvas).drawImage(video, 0, 0);
+  return fitWithin(canvas);
+}
+
+// A processed camera frame as a page
+export function preprocessedPage(source: HTMLCanvasElement, options: PreprocessOptions): string {
+  return encodeCanvas(preprocessImage(source, options), "image/jpeg");
+}
@@ -0,0 +1,302 @@
+import { DryRunStep, FlowchartStep, InterpreterResult } from "../types";
+import { Expr, ExpressionError, Value, evaluate, formatValue, parseExpression, truthy } from "./expression";
+import { successorId } from "./flowGraph";
+
+// Deterministic executor for the digital flowchart. It gives us a ground-truth
+// trace to hold the model's dry run against.
+
+export type Statement =
+  | { kind: 'assign'; target: Expr; value: Expr }
+  | { kind: 'swap'; left: Expr; right: Expr }
+  | { kind: 'input'; names: string[] }
+  | { kind: 'output'; values: Expr[] }
+  | { kind: 'condition'; test: Expr };
+
+export const MAX_INTERPRETER_STEPS = 2000;
+
+const INPUT_PREFIX = /^(?:read|input|get|enter|accept|take|scan)\b\s*:?\s*(.*)$/i;
+const OUTPUT_PREFIX = /^(?:print|display|output|write|show|return|out)\b\s*:?\s*(.*)$/i;
+const ASSIGN_PREFIX = /^(?:set|let|initialize|initialise|init|assign|compute|calculate|update)\s+(.*)$/i;
+const FILLER_WORDS = new Set(['the', 'value', 'values', 'of', 'number', 'numbers', 'and', 'from', 'user']);
+
+// Splits on any of `separators` that appear outside brackets and quotes.
+export function splitTopLevel(text: string, separators: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === ')' || ch === ']') {
+      depth--;
+    } else if (depth === 0 && separators.includes(ch)) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(p => p.length > 0);
+}
+
+// Finds a top-level assignment operator and returns [target, operator, value].
+function findAssignment(text: string): [string, string, string] | null {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") { quote = ch; continue; }
+    if (ch === '(' || ch === '[') { depth++; continue; }
+    if (ch === ')' || ch === ']') { depth--; continue; }
+    if (depth !== 0) continue;
+
+    const two = text.slice(i, i + 2);
+    if (two === ':=' || two === '<-' || ['+=', '-=', '*=', '/='].includes(two)) {
+      return [text.slice(0, i).trim(), two, text.slice(i + 2).trim()];
+    }
+    if (ch === '←') return [text.slice(0, i).trim(), ':=', text.slice(i + 1).trim()];
+    if (ch === '=' && text[i + 1] !== '=' && !'<>!='.includes(text[i - 1] || '')) {
+      return [text.slice(0, i).trim(), '=', text.slice(i + 1).trim()];
+    }
+  }
+  return null;
+}
+
+function parseTarget(text: string): Expr {
+  const target = parseExpression(text);
+  if (target.kind !== 'identifier' && target.kind !== 'index') {
+    throw new ExpressionError(`Cannot assign to "${text}"`);
+  }
+  return target;
+}
+
+function compoundAssignment(target: Expr, operator: '+' | '-' | '*' | '/', value: Expr): Statement {
+  return { kind: 'assign', target, value: { kind: 'binary', operator, left: target, right: value } };
+}
+
+function parseAssignmentLike(text: string): Statement | null {
+  const prefixed = ASSIGN_PREFIX.exec(text);
+  if (prefixed) {
+    const setTo = /^(.+?)\s+(?:to|as)\s+(.+)$/i.exec(prefixed[1]);
+    if (setTo && !findAssignment(prefixed[1])) {
+      return { kind: 'assign', target: parseTarget(setTo[1]), value: parseExpression(setTo[2]) };
+    }
+    text = prefixed[1];
+  }
+
+  const step = /^(increment|increase|decrement|decrease)\s+(.+?)(?:\s+by\s+(.+))?$/i.exec(text);
+  if (step) {
+    const operator = step[1].toLowerCase().startsWith('inc') ? '+' : '-';
+    const amount: Expr = step[3] ? parseExpression(step[3]) : { kind: 'literal', value: 1 };
+    return compoundAssignment(parseTarget(step[2]), operator, amount);
+  }
+
+  const postfix = /^(.+?)\s*(\+\+|--)$/.exec(text);
+  if (postfix) {
+    return compoundAssignment(parseTarget(postfix[1]), postfix[2] === '++' ? '+' : '-', { kind: 'literal', value: 1 });
+  }
+
+  const swap = /^swap\s+(.+?)\s+(?:and|with|,)\s+(.+)$/i.exec(text);
+  if (swap) {
+    return { kind: 'swap', left: parseTarget(swap[1]), right: parseTarget(swap[2]) };
+  }
+
+  const assignment = findAssignment(text);
+  if (!assignment) return null;
+  const [targetText, operator, valueText] = assignment;
+  const target = parseTarget(targetText);
+  const value = parseExpression(valueText);
+  if (operator.length === 2 && operator[1] === '=' && operator !== ':=') {
+    return compoundAssignment(target, operator[0] as '+' | '-' | '*' | '/', value);
+  }
+  return { kind: 'assign', target, value };
+}
+
+function parseInputNames(text: string, declared: string[]): string[] {
+  const words = text.split(/[\s,]+/).filter(w => w.length > 0);
+  const names = words.filter(w => /^[A-Za-z_][A-Za-z0-9_]*$/.test(w));
+  const known = declared.length > 0
+    ? names.filter(n => declared.includes(n))
+    : names.filter(n => !FILLER_WORDS.has(n.toLowerCase()));
+  if (known.length === 0) throw new ExpressionError(`Cannot tell which variables "${text}" reads`);
+  return known;
+}
+
+function stripCondition(text: string): string {
+  return text
+    .trim()
+    .replace(/\?+$/, '')
+    .replace(/^(?:is|if|while|check\s+(?:if|whether)|whether)\s+/i, '')
+    .replace(/\s+then$/i, '')
+    .trim();
+}
+
+// Converts the free text of one flowchart block into executable statements.
+export function parseStepStatements(step: FlowchartStep, declared: string[] = []): Statement[] {
+  const text = (step.text || '').trim();
+  if (step.type === 'start' || step.type === 'end') return [];
+  if (step.type === 'decision') return [{ kind: 'condition', test: parseExpression(stripCondition(text)) }];
+
+  const statements: Statement[] = [];
+  for (const line of splitTopLevel(text, ';\n')) {
+    const input = INPUT_PREFIX.exec(line);
+    if (input || (step.type === 'input' && !findAssignment(line))) {
+      statements.push({ kind: 'input', names: parseInputNames(input ? input[1] : line, declared) });
+      continue;
+    }
+
+    const output = OUTPUT_PREFIX.exec(line);
+    if (output || (step.type === 'output' && !findAssignment(line))) {
+      const values = splitTopLevel(output ? output[1] : line, ',').map(parseExpression);
+      statements.push({ kind: 'output', values });
+      continue;
+    }
+
+    // "i = 1, fact = 1" is two assignments; "x = max(a, b)" is one.
+    const pieces = splitTopLevel(line, ',');
+    const candidates = pieces.length > 1 && pieces.every(p => findAssignment(p)) ? pieces : [line];
+    for (const piece of candidates) {
+      const statement = parseAssignmentLike(piece);
+      if (!statement) throw new ExpressionError(`Cannot interpret "${piece}" as a statement`);
+      statements.push(statement);
+    }
+  }
+  return statements;
+}
+
+function cloneValue(value: Value): Value {
+  return Array.isArray(value) ? value.map(cloneValue) : value;
+}
+
+function snapshot(env: Record<string, Value>): Record<string, Value> {
+  const copy: Record<string, Value> = {};
+  for (const [key, value] of Object.entries(env)) copy[key] = cloneValue(value);
+  return copy;
+}
+
+function assign(target: Expr, value: Value, env: Record<string, Value>) {
+  if (target.kind === 'identifier') {
+    env[target.name] = value;
+    return;
+  }
+  if (target.kind === 'index') {
+    const container = evaluate(target.target, env);
+    if (!Array.isArray(container)) throw new ExpressionError(`Cannot assign into ${JSON.stringify(container)}`);
+    const index = evaluate(target.index, env);
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index > container.length) {
+      throw new ExpressionError(`Index ${JSON.stringify(index)} is out of range for length ${container.length}`);
+    }
+    container[index] = value;
+    return;
+  }
+  throw new ExpressionError('Invalid assignment target');
+}
+
+// `inputs` are already typed; see typedInputs in variableTypes
+export function executeFlowchart(
+  steps: FlowchartStep[],
+  inputs: Record<string, Value>,
+  declared: string[] = []
+): InterpreterResult {
+  const provided: Record<string, Value> = {};
+  for (const [key, value] of Object.entries(inputs || {})) provided[key] = cloneValue(value);
+  // Inputs enter the environment only when a block reads them, so a variable that is never read stays undefined
+  const env: Record<string, Value> = {};
+  const trace: DryRunStep[] = [];
+  const outputs: Value[] = [];
+
+  const finish = (status: InterpreterResult['status'], message?: string, failedStepId?: number): InterpreterResult => ({
+    status,
+    steps: trace,
+    outputs,
+    actual_output: outputs.length === 0 ? null : outputs.length === 1 ? outputs[0] : outputs,
+    message,
+    failed_step_id: failedStepId,
+  });
+
+  if (steps.length === 0) return finish('error', 'The flowchart has no steps');
+  let index = Math.max(0, steps.findIndex(s => s.type === 'start'));
+
+  while (index < steps.length) {
+    if (trace.length >= MAX_INTERPRETER_STEPS) {
+      return finish('error', `Stopped after ${MAX_INTERPRETER_STEPS} steps; the flowchart probably never terminates`);
+    }
+    const step = steps[index];
+    let description: string;
+    let branch: boolean | undefined;
+
+    try {
+      const statements = parseStepStatements(step, declared);
+      const notes: string[] = [];
+      for (const statement of statements) {
+        switch (statement.kind) {
+          case 'input':
+            for (const name of statement.names) {
+              if (!Object.hasOwn(provided, name)) throw new ExpressionError(`No input value was provided for '${name}'`);
+              env[name] = cloneValue(provided[name]);
+              notes.push(`${name} = ${formatValue(env[name])}`);
+            }
+            break;
+          case 'output': {
+            const values = statement.values.map(v => evaluate(v, env));
+            const value = values.length === 1 ? values[0] : values.map(formatValue).join(' ');
+            outputs.push(value);
+            notes.push(formatValue(value));
+            break;
+          }
+          case 'assign': {
+            const value = evaluate(statement.value, env);
+            assign(statement.target, value, env);
+            break;
+          }
+          case 'swap': {
+            const left = evaluate(statement.left, env);
+            const right = evaluate(statement.right, env);
+            assign(statement.left, right, env);
+            assign(statement.right, left, env);
+            break;
+          }
+          case 'condition':
+            branch = truthy(evaluate(statement.test, env));
+            break;
+        }
+      }
+
+      if (step.type === 'decision') description = `Check "${step.text}" → ${branch ? 'Yes' : 'No'}`;
+      else if (step.type === 'start' || step.type === 'end') description = step.text || step.type;
+      else if (step.type === 'input') description = `Read ${notes.join(', ')}`;
+      else if (step.type === 'output') description = `Output ${notes.join(', ')}`;
+      else description = step.text;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return finish('error', `Step ${step.id} ("${step.text}"): ${message}`, step.id);
+    }
+
+    trace.push({
+      step_number: trace.length + 1,
+      description,
+      variable_state: snapshot(env),
+      flowchart_step_id: step.id,
+    });
+
+    const nextId = successorId(step, steps, branch);
+    if (nextId === null) break;
+    if (nextId === undefined) {
+      return finish('halted', `Step ${step.id} has no known target for its "${branch ? 'Yes' : 'No'}" branch`, step.id);
+    }
+    index = steps.findIndex(s => s.id === nextId);
+    if (index === -1) return finish('error', `Step ${step.id} points to missing block ${nextId}`, step.id);
+  }
+
+  return finish('completed');
+}
@@ -0,0 +1,134 @@
+import { LabFile, LabRecord, TestCase, ValidationViolation } from "../types";
+import { createLabId, labTitle } from "./labLibrary";
+import { validateParseResult, validateSimulationResult } from "./responseValidator";
+import { normalizeParseResult, normalizeSimulationResult } from "./prompts";
+import { SOURCE_LANGUAGE_LABELS } from "./sourceCode";
+import { variableNames } from "./variableTypes";
+
+// Portable `.flowlab.json` files. Bump the version when the lab shape changes
+// and teach parseLabFile to upgrade the older versions.
+// Version 2: variables are { name, type, role } instead of plain names
+// Version 3: `images` (one per page) instead of a single `image`
+export const LAB_FILE_VERSION = 3;
+export const LAB_FILE_EXTENSION = ".flowlab.json";
+
+export class LabFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LabFileError";
+  }
+}
+
+export function labFileName(lab: Pick<LabRecord, "title">): string {
+  const slug = lab.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+  return `${slug || "lab"}${LAB_FILE_EXTENSION}`;
+}
+
+export function serializeLab(lab: LabRecord): string {
+  const { id, ...rest } = lab;
+  const file: LabFile = {
+    format: "flowlab",
+    version: LAB_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    lab: rest,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Input values are kept as typed text; numbers and booleans from hand-written files are accepted too
+function readInputs(raw: unknown, path: string, violations: ValidationViolation[]): Record<string, string> {
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    violations.push({ path, message: "must be an object of input values" });
+    return {};
+  }
+  const inputs: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (typeof value === "string") inputs[name] = value;
+    else if (typeof value === "number" || typeof value === "boolean") inputs[name] = String(value);
+    else violations.push({ path: `${path}.${name}`, message: "must be a string, number or boolean" });
+  }
+  return inputs;
+}
+
+function readTestCases(raw: unknown, violations: ValidationViolation[]): TestCase[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    violations.push({ path: "testCases", message: "must be an array" });
+    return [];
+  }
+  return raw.map((testCase, i) => {
+    const path = `testCases[${i}]`;
+    if (!testCase || typeof testCase !== "object") {
+      violations.push({ path, message: "must be an object" });
+      return null;
+    }
+    if (typeof testCase.name !== "string") violations.push({ path: `${path}.name`, message: "must be a string" });
+    const expected = testCase.expected_output ?? "";
+    if (typeof expected !== "string") violations.push({ path: `${path}.expected_output`, message: "must be a string" });
+    return {
+      id: typeof testCase.id === "string" ? testCase.id : `case-${i + 1}`,
+      name: testCase.name,
+      inputs: readInputs(testCase.inputs, `${path}.inputs`, violations),
+      expected_output: expected,
+    };
+  }).filter((testCase): testCase is TestCase => testCase !== null);
+}
+
+// Imported labs get a fresh id so reopening a handed-out file never
+// overwrites a lab already in the library.
+export function parseLabFile(text: string): LabRecord {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new LabFileError("This file is not valid JSON.");
+  }
+  if (!file || typeof file !== "object" || file.format !== "flowlab" || !file.lab || typeof file.lab !== "object") {
+    throw new LabFileError("This is not a FlowLab lab file.");
+  }
+  if (typeof file.version !== "number" || file.version > LAB_FILE_VERSION) {
+    throw new LabFileError(`Lab file version ${file.version} is newer than this app supports (${LAB_FILE_VERSION}).`);
+  }
+
+  const raw = file.lab;
+  const violations: ValidationViolation[] = [];
+  let parsedData = null;
+  let simulationData = null;
+  if (raw.parsedData) {
+    violations.push(...validateParseResult(raw.parsedData).map(v => ({ ...v, path: `parsedData.${v.path}` })));
+    // Also upgrades version 1 variable names to typed variables
+    if (violations.length === 0) parsedData = normalizeParseResult(raw.parsedData);
+  }
+  if (raw.simulationData && parsedData) {
+    const problems = validateSimulationResult(raw.simulationData, parsedData.digital_flowchart, variableNames(parsedData.variables));
+    violations.push(...problems.map(v => ({ ...v, path: `simulationData.${v.path}` })));
+    if (problems.length === 0) simulationData = normalizeSimulationResult(raw.simulationData);
+  }
+  const inputs = readInputs(raw.inputs, "inputs", violations);
+  const testCases = readTestCases(raw.testCases, violations);
+  if (violations.length > 0) {
+    const details = violations.slice(0, 3).map(v => `${v.path} ${v.message}`).join("; ");
+    throw new LabFileError(`The lab file is damaged: ${details}.`);
+  }
+
+  const description = typeof raw.description === "string" ? raw.description : "";
+  const mode = raw.mode === "image" || raw.mode === "diagram" || raw.mode === "code" ? raw.mode : "text";
+  const now = Date.now();
+  return {
+    id: createLabId(),
+    title: labTitle(description, mode),
+    description,
+    images: Array.isArray(raw.images)
+      ? raw.images.filter((i: unknown) => typeof i === "string")
+      : typeof raw.image === "string" ? [raw.image] : [],
+    mode,
+    codeLanguage: raw.codeLanguage in SOURCE_LANGUAGE_LABELS ? raw.codeLanguage : undefined,
+    parsedData,
+    inputs,
+    simulationData,
+    testCases,
+    createdAt: typeof raw.createdAt === "number" ? raw.createdAt : now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,68 @@
+import { AppState, LabRecord } from "../types";
+import { withStore } from "./database";
+import { normalizeParseResult } from "./prompts";
+
+const STORE = "labs";
+
+export function createLabId(): string {
+  return `lab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function labTitle(description: string, mode: AppState['mode']): string {
+  if (mode === "diagram") return "Imported diagram";
+  const firstLine = description.split("\n").map(l => l.trim()).find(Boolean);
+  if (firstLine) return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+  return mode === "image" ? "Hand-drawn flowchart" : "Untitled lab";
+}
+
+export function labFromState(state: AppState): LabRecord {
+  const now = Date.now();
+  return {
+    id: state.labId || createLabId(),
+    title: labTitle(state.description, state.mode),
+    description: state.description,
+    images: state.images,
+    mode: state.mode,
+    codeLanguage: state.codeLanguage,
+    parsedData: state.parsedData,
+    inputs: state.inputs,
+    simulationData: state.simulationData,
+    testCases: state.testCases,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Most recently updated first
+export async function listLabs(): Promise<LabRecord[]> {
+  const labs = await withStore<LabRecord[]>(STORE, "readonly", store => store.getAll());
+  return labs.map(upgradeLab).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getLab(id: string): Promise<LabRecord | null> {
+  const lab = await withStore<LabRecord | undefined>(STORE, "readonly", store => store.get(id));
+  return lab ? upgradeLab(lab) : null;
+}
+
+// Labs saved before variables carried a type and role list plain names,
+// and labs saved before multi-page drawings hold a single `image`
+function upgradeLab(lab: LabRecord & { image?: string | null }): LabRecord {
+  const { image, ...rest } = lab;
+  return {
+    ...rest,
+    images: rest.images || (image ? [image] : []),
+    parsedData: rest.parsedData && normalizeParseResult(rest.parsedData),
+  };
+}
+
+// Overwrites by id, keeping the original creation time
+export async function saveLab(lab: LabRecord): Promise<LabRecord> {
+  const existing = await getLab(lab.id);
+  const saved = { ...lab, createdAt: existing?.createdAt ?? lab.createdAt };
+  await withStore(STORE, "readwrite", store => store.put(saved));
+  return saved;
+}
+
+export async function deleteLab(id: string): Promise<void> {
+  await withStore(STORE, "readwrite", store => store.delete(id));
+}
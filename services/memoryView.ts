@@ -0,0 +1,154 @@
+import { FlowchartStep } from "../types";
+import { Expr } from "./expression";
+import { parseStepStatements } from "./interpreter";
+import { statementExpressions, subExpressions } from "./variableTypes";
+
+// Decides how the State Memory panel draws each variable: arrays as indexed
+// cells with their pointer variables, 2D arrays as grids, stacks, queues and
+// objects, each with the elements that changed since the previous step.
+
+export interface MemoryPointer {
+  name: string;
+  index: number;
+}
+
+export type MemoryLayout =
+  | { kind: 'scalar'; value: unknown }
+  | { kind: 'array'; items: unknown[]; changed: boolean[]; pointers: MemoryPointer[] }
+  | { kind: 'grid'; rows: unknown[][]; changed: boolean[][]; rowPointers: MemoryPointer[]; columnPointers: MemoryPointer[] }
+  // Stacks list bottom first; queues list front first
+  | { kind: 'stack' | 'queue'; items: unknown[]; changed: boolean[] }
+  | { kind: 'object'; entries: { key: string; value: unknown; changed: boolean }[] };
+
+// Variables used inside the brackets of each array, per dimension:
+// "a[j + 1]" makes j a pointer into a, "m[r][c]" makes r a row and c a column pointer.
+export type IndexPointers = Map<string, Set<string>[]>;
+
+const STACK_NAME = /stack/i;
+const QUEUE_NAME = /queue|^q$/i;
+// Used when the flowchart never indexes an array (e.g. a trace the model invented)
+const COMMON_POINTERS = ['i', 'j', 'k', 'lo', 'hi', 'low', 'high', 'mid', 'left', 'right', 'l', 'r', 'pos', 'idx', 'index', 'min_idx', 'minIndex'];
+
+export const sameMemoryValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function identifiersIn(expr: Expr, found = new Set<string>()): Set<string> {
+  if (expr.kind === 'identifier') found.add(expr.name);
+  subExpressions(expr).forEach(sub => identifiersIn(sub, found));
+  return found;
+}
+
+export function findIndexPointers(steps: FlowchartStep[], declared: string[] = []): IndexPointers {
+  const pointers: IndexPointers = new Map();
+  const walk = (expr: Expr) => {
+    if (expr.kind === 'index') {
+      const indices: Expr[] = [];
+      let base: Expr = expr;
+      while (base.kind === 'index') {
+        indices.unshift(base.index);
+        base = base.target;
+      }
+      if (base.kind === 'identifier') {
+        const dims = pointers.get(base.name) || [];
+        indices.forEach((index, dim) => {
+          dims[dim] = dims[dim] || new Set();
+          identifiersIn(index).forEach(name => dims[dim].add(name));
+        });
+        pointers.set(base.name, dims);
+      }
+    }
+    subExpressions(expr).forEach(walk);
+  };
+  for (const step of steps) {
+    try {
+      parseStepStatements(step, declared).flatMap(statementExpressions).forEach(walk);
+    } catch {
+      // Blocks the interpreter cannot read simply contribute no pointers
+    }
+  }
+  return pointers;
+}
+
+// The model sometimes writes arrays and objects as JSON strings
+function coerce(value: unknown): unknown {
+  if (typeof value !== 'string' || !/^\s*[[{]/.test(value)) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function elementChanges(items: unknown[], previous: unknown): boolean[] {
+  const before = Array.isArray(previous) ? previous : null;
+  if (!before) return items.map(() => false);
+  return items.map((item, i) => i >= before.length || !sameMemoryValue(item, before[i]));
+}
+
+// A dequeue shifts every element left, so line the old queue up with the new one first
+function queueChanges(items: unknown[], previous: unknown): boolean[] {
+  if (!Array.isArray(previous)) return items.map(() => false);
+  for (let removed = 0; removed <= previous.length; removed++) {
+    const kept = previous.slice(removed);
+    if (kept.every((item, i) => i < items.length && sameMemoryValue(item, items[i]))) {
+      return items.map((_, i) => i >= kept.length);
+    }
+  }
+  return elementChanges(items, previous);
+}
+
+function resolvePointers(names: Iterable<string>, state: Record<string, unknown>, length: number): MemoryPointer[] {
+  const pointers: MemoryPointer[] = [];
+  for (const name of names) {
+    const index = coerce(state[name]);
+    if (typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < length) pointers.push({ name, index });
+  }
+  return pointers;
+}
+
+export function layoutValue(
+  name: string,
+  value: unknown,
+  previous: unknown,
+  state: Record<string, unknown>,
+  pointers: IndexPointers
+): MemoryLayout {
+  const current = coerce(value);
+  const before = coerce(previous);
+
+  if (isPlainObject(current)) {
+    const old = isPlainObject(before) ? before : null;
+    return {
+      kind: 'object',
+      entries: Object.entries(current).map(([key, item]) => ({ key, value: item, changed: !!old && !sameMemoryValue(item, old[key]) })),
+    };
+  }
+  if (!Array.isArray(current)) return { kind: 'scalar', value: current };
+
+  if (STACK_NAME.test(name)) return { kind: 'stack', items: current, changed: elementChanges(current, before) };
+  if (QUEUE_NAME.test(name)) return { kind: 'queue', items: current, changed: queueChanges(current, before) };
+
+  const dims = pointers.get(name);
+  if (current.length > 0 && current.every(Array.isArray)) {
+    const rows = current as unknown[][];
+    const oldRows = Array.isArray(before) ? before : [];
+    const width = Math.max(...rows.map(row => row.length));
+    return {
+      kind: 'grid',
+      rows,
+      changed: rows.map((row, r) => (Array.isArray(before) ? elementChanges(row, oldRows[r] ?? []) : row.map(() => false))),
+      rowPointers: resolvePointers(dims?.[0] ?? [], state, rows.length),
+      columnPointers: resolvePointers(dims?.[1] ?? [], state, width),
+    };
+  }
+
+  const candidates = dims?.[0] ?? COMMON_POINTERS.filter(p => p in state);
+  return {
+    kind: 'array',
+    items: current,
+    changed: elementChanges(current, before),
+    pointers: resolvePointers(candidates, state, current.length),
+  };
+}
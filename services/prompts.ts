@@ -0,0 +1,120 @@
+import { ParseRequest, ParseResult, SimulationRequest, SimulationResult } from "../types";
+import { dataUrlMimeType } from "./imagePipeline";
+import { SOURCE_LANGUAGE_LABELS, normalizeStepLines } from "./sourceCode";
+import { normalizeStepRegion } from "./sourceRegions";
+import { normalizeVariables } from "./variableTypes";
+
+// Prompts and response normalization shared by every AI provider, so that the
+// parse/simulate contract stays identical whichever model answers it.
+
+export const PARSE_SYSTEM_INSTRUCTION = `
+You are a computer science tutor. Your task is to extract the logical structure of a flowchart from text, source code or an image.
+Return ONLY valid JSON.
+Identify every variable and the sequence of blocks (start, input, process, decision, output, end).
+Give each variable a 'type' (integer, float, boolean, string, array or matrix) and a 'role':
+'input' when its value is read in before the algorithm runs, 'internal' when the algorithm computes it.
+Assign unique numeric IDs to each block.
+Connect the blocks explicitly: every non-decision block has a 'next' id (null for 'end'),
+every decision block has a 'yes' id and a 'no' id. Loops are expressed by pointing back to an earlier id.
+Use 'next_label', 'yes_label' or 'no_label' only when the drawing labels an arrow with something other than Yes/No.
+`;
+
+export const SIMULATE_SYSTEM_INSTRUCTION = `
+You are a computer science professor.
+Perform a granular, step-by-step dry run of the provided algorithm with the given inputs.
+Create exactly one step in the 'dry_run' array for EVERY flowchart block you visit, in execution order, including the start and end blocks.
+Map each dry run step to the 'flowchart_step_id' from the provided digital flowchart.
+Move between blocks ONLY along the flowchart's edges: 'next' after a non-decision block, 'yes' or 'no' after a decision depending on its condition.
+'variable_state' must hold the value of every variable AFTER that block has executed.
+If the logic contains an error (like a wrong condition or calculation), note it in 'mistake_explanation'.
+"is_correct" should be true ONLY if the algorithm correctly solves the task.
+`;
+
+// Source code is sent with line numbers, so the model can say which lines became each block
+const numberLines = (code: string) => code.split("\n").map((line, i) => `${i + 1}| ${line}`).join("\n");
+
+export function buildParsePrompt(request: ParseRequest): string {
+  if (request.language) {
+    const language = SOURCE_LANGUAGE_LABELS[request.language];
+    return `Analyze this ${language} program, shown with a line number before each line:
+${numberLines(request.description)}
+  Convert it into a digital flowchart structure and identify variables. Loops become decisions that point back to an earlier block.
+  For every block also give "lines": [start, end], the first and last line numbers of the code the block was made from. Start and end blocks use the line of the function or program header when there is one.
+  JSON structure: { "variables": [{ "name": "n", "type": "integer", "role": "input" }], "digital_flowchart": [{ "id": 1, "type": "start", "text": "Start", "next": 2, "lines": [1, 1] }, { "id": 3, "type": "decision", "text": "i <= n?", "yes": 4, "no": 6, "lines": [3, 3] }, ...] }`;
+  }
+  const { description } = request;
+  const pageCount = request.images?.length || 0;
+  const pages = pageCount > 1
+    ? `\n  The flowchart is drawn across ${pageCount} images, given in page order. Join arrows that leave one page with the matching connector on another, and number the blocks across all pages.`
+    : '';
+  const boxes = pageCount > 0
+    ? `\n  For every block also give "box_2d": [ymin, xmin, ymax, xmax], the block's bounding box in the image on a 0-1000 scale${pageCount > 1 ? ', and "page", the number of the image it is drawn on (starting at 1)' : ''}.`
+    : '';
+  return `Analyze the algorithm: "${description}". Convert it into a digital flowchart structure and identify variables.${pages}${boxes}
+  JSON structure: { "variables": [{ "name": "n", "type": "integer", "role": "input" }, { "name": "i", "type": "integer", "role": "internal" }], "digital_flowchart": [{ "id": 1, "type": "start", "text": "Start", "next": 2 }, { "id": 3, "type": "decision", "text": "i <= n?", "yes": 4, "no": 6 }, ...] }`;
+}
+
+export function buildSimulationPrompt(request: SimulationRequest): string {
+  const safeInputs = request.inputs || {};
+  const inputStr = Object.entries(safeInputs).map(([k, v]) => `${k}=${JSON.stringify(v)}`).join(", ");
+  const variableStr = (request.variables || []).map(v => `${v.name} (${v.type}, ${v.role})`).join(", ");
+  const algorithm = request.language
+    ? `${SOURCE_LANGUAGE_LABELS[request.language]} program:\n${request.description}\n`
+    : `Algorithm: ${request.description}.`;
+  return `${algorithm}
+    Inputs: ${inputStr}.
+    Variables: ${variableStr}.
+    Flowchart Structure: ${JSON.stringify(request.digitalFlowchart.map(({ region, lines, ...step }) => step))}.
+    Each block lists its outgoing edges ('next', or 'yes'/'no' for decisions).
+    Please produce a step-by-step dry run trace. Ensure 'variable_state' is present in every step.
+    JSON structure: { "dry_run": [{ "step_number": 1, "description": "...", "variable_state": {}, "flowchart_step_id": 1, "explanation": "..." }], "is_correct": true, "accuracy_score": 100, "mistake_explanation": "...", "expected_output": ..., "actual_output": ... }`;
+}
+
+export function buildRepairPrompt(originalPrompt: string, previousResponse: string, problems: string): string {
+  return `${originalPrompt}
+
+    Your previous answer was:
+    ${previousResponse}
+
+    It has these problems:
+    ${problems}
+
+    Return the complete corrected JSON only.`;
+}
+
+// Splits a data URL into its MIME type and base64 payload; bare base64 is sniffed
+export function imageData(imageBase64: string): { mimeType: string; data: string } {
+  return { mimeType: dataUrlMimeType(imageBase64), data: imageBase64.split(',')[1] || imageBase64 };
+}
+
+export function parseJSONResponse(text: string | undefined): any {
+  const trimmed = (text || '').trim();
+  // Some OpenAI-compatible servers wrap JSON mode output in a markdown fence
+  const unfenced = trimmed.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(unfenced || '{}');
+}
+
+export function normalizeParseResult(parsed: any): ParseResult {
+  const steps = (parsed.digital_flowchart || []).map(normalizeStepRegion).map(normalizeStepLines);
+  return {
+    variables: normalizeVariables(parsed.variables, steps),
+    digital_flowchart: steps
+  };
+}
+
+export function normalizeSimulationResult(result: any): SimulationResult {
+  // Defensive normalization of dry_run steps
+  const normalizedDryRun = (result.dry_run || []).map((step: any) => ({
+    ...step,
+    variable_state: step.variable_state || {}
+  }));
+
+  return {
+    dry_run: normalizedDryRun,
+    is_correct: !!result.is_correct,
+    accuracy_score: result.accuracy_score ?? 0,
+    mistake_explanation: result.mistake_explanation,
+    expected_output: result.expected_output,
+    actual_output: result.actual_output
+  };
+}
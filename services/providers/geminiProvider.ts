@@ -0,0 +1,92 @@
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { AITask } from "../../types";
+import { AIServiceError } from "../aiErrors";
+import { createJSONProvider } from "../aiProvider";
+import { imageData } from "../prompts";
+
+const RESPONSE_SCHEMAS: Partial<Record<AITask, object>> = {
+  parse: {
+    type: Type.OBJECT,
+    properties: {
+      variables: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            type: { type: Type.STRING, enum: ['integer', 'float', 'boolean', 'string', 'array', 'matrix'] },
+            role: { type: Type.STRING, enum: ['input', 'internal'] }
+          },
+          required: ["name", "type", "role"]
+        }
+      },
+      digital_flowchart: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.NUMBER },
+            type: { type: Type.STRING, enum: ['start', 'process', 'decision', 'input', 'output', 'end'] },
+            text: { type: Type.STRING },
+            next: { type: Type.NUMBER, nullable: true },
+            yes: { type: Type.NUMBER, nullable: true },
+            no: { type: Type.NUMBER, nullable: true },
+            next_label: { type: Type.STRING },
+            yes_label: { type: Type.STRING },
+            no_label: { type: Type.STRING },
+            box_2d: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+            page: { type: Type.NUMBER },
+            lines: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+          },
+          required: ["id", "type", "text"]
+        }
+      }
+    },
+    required: ["variables", "digital_flowchart"]
+  }
+};
+
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+// A blocked prompt or answer arrives as an empty response, not as an error
+function checkBlocked(response: GenerateContentResponse, task: AITask) {
+  const finishReason = String(response.candidates?.[0]?.finishReason ?? '');
+  const reason = response.promptFeedback?.blockReason || (BLOCKED_FINISH_REASONS.has(finishReason) ? finishReason : null);
+  if (reason) throw new AIServiceError('safety', task, `Blocked by Gemini (${reason})`);
+}
+
+export const geminiProvider = createJSONProvider(async (call, settings) => {
+  const task = settings.tasks[call.task];
+  // Always create a new client right before the call to ensure the latest API key is used
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+  const parts: any[] = [{ text: call.prompt }];
+  for (const image of call.images || []) {
+    parts.push({ inlineData: imageData(image) });
+  }
+
+  const request = {
+    model: task.model,
+    contents: { parts },
+    config: {
+      systemInstruction: call.systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: RESPONSE_SCHEMAS[call.task],
+      abortSignal: call.signal,
+      ...(task.temperature !== null ? { temperature: task.temperature } : {}),
+      ...(task.thinkingBudget !== null ? { thinkingConfig: { thinkingBudget: task.thinkingBudget } } : {})
+    }
+  };
+
+  if (!call.onText) {
+    const response = await ai.models.generateContent(request);
+    checkBlocked(response, call.task);
+    return response.text || '{}';
+  }
+  let text = '';
+  for await (const chunk of await ai.models.generateContentStream(request)) {
+    checkBlocked(chunk, call.task);
+    text += chunk.text || '';
+    call.onText(text);
+  }
+  return text || '{}';
+});
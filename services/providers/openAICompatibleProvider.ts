@@ -0,0 +1,78 @@
+import { AITask } from "../../types";
+import { AIServiceError, errorKindForStatus } from "../aiErrors";
+import { createJSONProvider } from "../aiProvider";
+import { imageData } from "../prompts";
+
+function checkFiltered(finishReason: unknown, task: AITask) {
+  if (finishReason === 'content_filter') throw new AIServiceError('safety', task, 'Blocked by the content filter');
+}
+
+// Reads a server-sent event stream of chat completion chunks, reporting the content so far
+async function readCompletionStream(response: Response, task: AITask, onText: (text: string) => void): Promise<string> {
+  if (!response.body) throw new AIServiceError('network', task, "The OpenAI-compatible endpoint returned an empty stream.");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || data === '' || data === '[DONE]') continue;
+      const choice = JSON.parse(data)?.choices?.[0];
+      checkFiltered(choice?.finish_reason, task);
+      const delta = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+}
+
+// Any server that speaks the OpenAI chat completions API: OpenAI itself, or a
+// locally hosted model behind Ollama, llama.cpp, vLLM, LM Studio and the like.
+export const openAICompatibleProvider = createJSONProvider(async (call, settings) => {
+  const task = settings.tasks[call.task];
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  if (!baseUrl) throw new AIServiceError('unknown', call.task, "No base URL is configured for the OpenAI-compatible provider.");
+
+  const userContent: any[] = [{ type: 'text', text: call.prompt }];
+  for (const image of call.images || []) {
+    const { mimeType, data } = imageData(image);
+    userContent.push({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } });
+  }
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model: task.model,
+      messages: [
+        { role: 'system', content: call.systemInstruction },
+        { role: 'user', content: userContent }
+      ],
+      response_format: { type: 'json_object' },
+      ...(call.onText ? { stream: true } : {}),
+      ...(task.temperature !== null ? { temperature: task.temperature } : {})
+    }),
+    signal: call.signal
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new AIServiceError(errorKindForStatus(response.status), call.task, `OpenAI-compatible endpoint returned ${response.status}: ${detail}`);
+  }
+  if (call.onText) return (await readCompletionStream(response, call.task, call.onText)) || '{}';
+  const body = await response.json();
+  checkFiltered(body?.choices?.[0]?.finish_reason, call.task);
+  return body?.choices?.[0]?.message?.content || '{}';
+});
@@ -0,0 +1,78 @@
+import { AITask, DryRunStep, ParseResult, SimulationResult } from "../../types";
+import { AIErrorKind, AIServiceError } from "../aiErrors";
+import { AIProvider } from "../aiProvider";
+
+// Gemini through the local server (server/index.ts), which holds the API key.
+// Both endpoints take the request as JSON and answer with newline-delimited
+// JSON events: any number of `steps` while a dry run streams, then one
+// `result` or `error`.
+
+export const PROXY_ENDPOINTS: Record<AITask, string> = {
+  parse: "/api/parse",
+  simulate: "/api/simulate",
+};
+
+export interface ProxyErrorBody {
+  kind: AIErrorKind;
+  phase: AITask;
+  message: string;
+  retryAfterMs?: number;
+}
+
+export type ProxyEvent =
+  | { steps: DryRunStep[] }
+  | { result: ParseResult | SimulationResult }
+  | { error: ProxyErrorBody };
+
+export function proxyErrorBody(error: AIServiceError): ProxyErrorBody {
+  return { kind: error.kind, phase: error.phase, message: error.message, retryAfterMs: error.retryAfterMs };
+}
+
+const toError = (body: ProxyErrorBody, task: AITask) =>
+  new AIServiceError(body.kind || "unknown", body.phase || task, body.message || "The proxy server failed", body.retryAfterMs);
+
+async function* readEvents(response: Response, task: AITask): AsyncGenerator<ProxyEvent> {
+  if (!response.body) throw new AIServiceError("network", task, "The proxy server returned an empty response.");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+  }
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+async function post<T>(task: AITask, body: unknown, signal?: AbortSignal, onSteps?: (steps: DryRunStep[]) => void): Promise<T> {
+  const response = await fetch(PROXY_ENDPOINTS[task], {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  // Rejections before the model was called (rate limit, bad request) come as a plain JSON error
+  if (!response.ok) {
+    const detail = await response.json().catch(() => null);
+    if (detail?.error) throw toError(detail.error, task);
+    throw new AIServiceError(response.status >= 500 ? "network" : "unknown", task, `The proxy server returned ${response.status}`);
+  }
+
+  for await (const event of readEvents(response, task)) {
+    if ("error" in event) throw toError(event.error, task);
+    if ("result" in event) return event.result as T;
+    onSteps?.(event.steps);
+  }
+  throw new AIServiceError("network", task, "The proxy server closed the connection before answering.");
+}
+
+export const proxyProvider: AIProvider = {
+  parseFlowchart: (request, _settings, options = {}) => post<ParseResult>("parse", request, options.signal),
+  runSimulation: (request, _settings, options = {}) => post<SimulationResult>("simulate", request, options.signal, options.onSteps),
+};
@@ -0,0 +1,45 @@
+import { ParseResult } from "../../types";
+import { AIProvider } from "../aiProvider";
+import { executeFlowchart } from "../interpreter";
+import { variableNames } from "../variableTypes";
+
+// Offline provider for development and demos: parsing always yields the same
+// factorial flowchart and simulations come from the local interpreter.
+
+const SAMPLE_FLOWCHART: ParseResult = {
+  variables: [
+    { name: 'n', type: 'integer', role: 'input' },
+    { name: 'fact', type: 'integer', role: 'internal' },
+    { name: 'i', type: 'integer', role: 'internal' }
+  ],
+  digital_flowchart: [
+    { id: 1, type: 'start', text: 'Start', next: 2 },
+    { id: 2, type: 'input', text: 'Read n', next: 3 },
+    { id: 3, type: 'process', text: 'fact = 1, i = 1', next: 4 },
+    { id: 4, type: 'decision', text: 'i <= n?', yes: 5, no: 6 },
+    { id: 5, type: 'process', text: 'fact = fact * i; i = i + 1', next: 4 },
+    { id: 6, type: 'output', text: 'Print fact', next: 7 },
+    { id: 7, type: 'end', text: 'End', next: null }
+  ]
+};
+
+export const stubProvider: AIProvider = {
+  async parseFlowchart() {
+    return JSON.parse(JSON.stringify(SAMPLE_FLOWCHART));
+  },
+
+  async runSimulation(request) {
+    const run = executeFlowchart(request.digitalFlowchart, request.inputs, variableNames(request.variables));
+    if (run.status !== 'completed') {
+      throw new Error(`The stub provider could not simulate this flowchart: ${run.message}`);
+    }
+    return {
+      dry_run: run.steps,
+      is_correct: true,
+      accuracy_score: 100,
+      mistake_explanation: undefined,
+      expected_output: run.actual_output,
+      actual_output: run.actual_output
+    };
+  }
+};
@@ -0,0 +1,72 @@
+import { DryRunStep } from "../types";
+import { parseInputValue } from "./expression";
+import { sameMemoryValue } from "./memoryView";
+import { sameValue } from "./traceVerifier";
+
+// Prediction quiz over a dry run: before each step is revealed the student
+// predicts the next block and the new values of the variables that change.
+
+export interface QuizQuestion {
+  stepIndex: number;
+  // Variables whose value differs from the previous step
+  changed: string[];
+}
+
+export interface QuizPrediction {
+  stepId: number | null;
+  values: Record<string, string>;
+}
+
+export interface QuizFieldResult {
+  // 'block' for the next flowchart block, otherwise a variable name
+  field: string;
+  expected: unknown;
+  predicted: unknown;
+  correct: boolean;
+}
+
+export interface QuizStepResult {
+  stepIndex: number;
+  fields: QuizFieldResult[];
+  correct: boolean;
+}
+
+// Step 0 (the start block) is shown up front; every later step is a question
+export function quizQuestions(steps: DryRunStep[]): QuizQuestion[] {
+  return steps.slice(1).map((step, i) => {
+    const previous = steps[i].variable_state || {};
+    const current = step.variable_state || {};
+    return {
+      stepIndex: i + 1,
+      changed: Object.keys(current).filter(name => !(name in previous) || !sameMemoryValue(previous[name], current[name])),
+    };
+  });
+}
+
+export function gradePrediction(steps: DryRunStep[], question: QuizQuestion, prediction: QuizPrediction): QuizStepResult {
+  const step = steps[question.stepIndex];
+  const fields: QuizFieldResult[] = [{
+    field: 'block',
+    expected: step.flowchart_step_id,
+    predicted: prediction.stepId,
+    correct: prediction.stepId === step.flowchart_step_id,
+  }];
+  for (const name of question.changed) {
+    const raw = prediction.values[name] ?? '';
+    const expected = step.variable_state[name];
+    fields.push({
+      field: name,
+      expected,
+      predicted: raw,
+      // Compare as values, so "[1,2]" matches [1, 2] and "2.0" matches 2
+      correct: raw.trim() !== '' && (sameValue(parseInputValue(raw), expected) || sameValue(expected, raw.trim())),
+    });
+  }
+  return { stepIndex: question.stepIndex, fields, correct: fields.every(f => f.correct) };
+}
+
+export function quizScore(results: QuizStepResult[]): { earned: number; possible: number; percent: number } {
+  const fields = results.flatMap(r => r.fields);
+  const earned = fields.filter(f => f.correct).length;
+  return { earned, possible: fields.length, percent: fields.length === 0 ? 100 : Math.round((earned / fields.length) * 100) };
+}
@@ -0,0 +1,138 @@
+import { AIRecording, AITask, ParseRequest, RecordingMode, SimulationRequest, SimulationResult } from "../types";
+import { AIServiceError } from "./aiErrors";
+import { AIProvider } from "./aiProvider";
+import { withStore } from "./database";
+import { executeFlowchart } from "./interpreter";
+import { SAMPLE_LABS } from "./sampleLabs";
+import { typedInputs, variableNames } from "./variableTypes";
+
+// Record/replay of AI calls. Recording stores each response under a hash of
+// its request; replay answers from those recordings (and the bundled sample
+// labs) without touching the network.
+
+const STORE = "recordings";
+
+export class ReplayMissError extends AIServiceError {
+  constructor(task: AITask) {
+    super(
+      "not_recorded",
+      task,
+      `Replay mode has no recorded ${task === "parse" ? "parse" : "simulation"} for this ` +
+      `${task === "parse" ? "description and image" : "description, flowchart and inputs"}. ` +
+      "Switch to Record in the AI settings and run it once online."
+    );
+    this.name = "ReplayMissError";
+  }
+}
+
+// JSON with sorted object keys, so equal requests always hash the same
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// A simulation also depends on the flowchart it runs, so that is hashed too
+export async function recordingKey(task: AITask, request: ParseRequest | SimulationRequest): Promise<string> {
+  const keyed = task === "parse"
+    ? { description: request.description, images: request.images, language: request.language }
+    : {
+        description: request.description,
+        images: request.images,
+        language: request.language,
+        inputs: (request as SimulationRequest).inputs,
+        flowchart: (request as SimulationRequest).digitalFlowchart,
+        variables: (request as SimulationRequest).variables,
+      };
+  return `${task}:${await sha256(canonicalJSON(keyed))}`;
+}
+
+const recordingLabel = (description: string) => description.split("\n").map(l => l.trim()).find(Boolean)?.slice(0, 60) || "Image only";
+
+let bundled: Promise<AIRecording[]> | null = null;
+
+// The sample labs' responses, rebuilt from their flowcharts with the interpreter
+function bundledRecordings(): Promise<AIRecording[]> {
+  if (!bundled) {
+    bundled = Promise.all(SAMPLE_LABS.flatMap(sample => {
+      const { variables, digital_flowchart } = sample.flowchart;
+      const simulation: SimulationRequest = {
+        description: sample.description,
+        inputs: typedInputs(variables, sample.inputs),
+        digitalFlowchart: digital_flowchart,
+        variables,
+      };
+      const run = executeFlowchart(digital_flowchart, simulation.inputs, variableNames(variables));
+      const result: SimulationResult = {
+        dry_run: run.steps,
+        is_correct: true,
+        accuracy_score: 100,
+        expected_output: run.actual_output,
+        actual_output: run.actual_output,
+      };
+      return [
+        recordingKey("parse", { description: sample.description }).then(key => ({
+          key, task: "parse" as AITask, label: sample.title, response: sample.flowchart, recordedAt: 0,
+        })),
+        recordingKey("simulate", simulation).then(key => ({
+          key, task: "simulate" as AITask, label: sample.title, response: result, recordedAt: 0,
+        })),
+      ];
+    }));
+  }
+  return bundled;
+}
+
+export async function findRecording(key: string): Promise<AIRecording | null> {
+  // Without IndexedDB (e.g. under Node) only the bundled recordings are available
+  const stored = await withStore<AIRecording | undefined>(STORE, "readonly", store => store.get(key)).catch(() => undefined);
+  if (stored) return stored;
+  return (await bundledRecordings()).find(r => r.key === key) || null;
+}
+
+export async function saveRecording(recording: AIRecording): Promise<void> {
+  await withStore(STORE, "readwrite", store => store.put(recording));
+}
+
+export async function countRecordings(): Promise<number> {
+  return withStore<number>(STORE, "readonly", store => store.count());
+}
+
+export async function clearRecordings(): Promise<void> {
+  await withStore(STORE, "readwrite", store => store.clear());
+}
+
+// Deep copy, so callers cannot mutate a stored or bundled response
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export function withRecording(provider: AIProvider, mode: RecordingMode): AIProvider {
+  if (mode === "off") return provider;
+
+  const serve = async <T extends AIRecording["response"]>(task: AITask, request: ParseRequest | SimulationRequest, call: () => Promise<T>): Promise<T> => {
+    const key = await recordingKey(task, request);
+    if (mode === "replay") {
+      const recording = await findRecording(key);
+      if (!recording) throw new ReplayMissError(task);
+      return copy(recording.response) as T;
+    }
+    const response = await call();
+    await saveRecording({ key, task, label: recordingLabel(request.description), response: copy(response), recordedAt: Date.now() })
+      .catch(err => console.warn("Could not store the recording:", err));
+    return response;
+  };
+
+  return {
+    parseFlowchart: (request, settings, options) => serve("parse", request, () => provider.parseFlowchart(request, settings, options)),
+    runSimulation: (request, settings, options) => serve("simulate", request, () => provider.runSimulation(request, settings, options)),
+  };
+}
@@ -0,0 +1,149 @@
+import { AITask, FlowchartStep, ValidationViolation } from "../types";
+import { AIServiceError } from "./aiErrors";
+import { findIllegalTransitions } from "./flowGraph";
+import { VARIABLE_ROLES, VARIABLE_TYPES } from "./variableTypes";
+
+// Semantic checks on raw model output, before normalization papers over
+// missing fields. Every violation is phrased so it can be sent back to the
+// model as a correction request.
+
+const SHAPE_TYPES = ['start', 'process', 'decision', 'input', 'output', 'end'];
+
+// Thrown once the repair attempt has failed too
+export class ResponseValidationError extends AIServiceError {
+  constructor(phase: AITask, public violations: ValidationViolation[]) {
+    const details = violations.slice(0, 3).map(v => `${v.path} ${v.message}`).join('; ');
+    const more = violations.length > 3 ? ` (+${violations.length - 3} more)` : '';
+    super(
+      'invalid_response',
+      phase,
+      `The AI returned an invalid ${phase === 'parse' ? 'flowchart' : 'dry run'} twice, even after being told what was wrong: ${details}${more}.`
+    );
+    this.name = 'ResponseValidationError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isId = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export function validateParseResult(raw: any): ValidationViolation[] {
+  const violations: ValidationViolation[] = [];
+  const add = (path: string, message: string) => violations.push({ path, message });
+
+  if (!isObject(raw)) {
+    add('$', 'the response must be a JSON object');
+    return violations;
+  }
+  if (!Array.isArray(raw.variables)) {
+    add('variables', 'must be an array of { name, type, role } objects');
+  } else {
+    // Plain names are still accepted from older labs; types and roles are inferred for them
+    raw.variables.forEach((v: unknown, i: number) => {
+      if (typeof v === 'string') return;
+      const path = `variables[${i}]`;
+      if (!isObject(v) || typeof v.name !== 'string' || v.name.trim() === '') {
+        add(path, 'must be an object with a non-empty "name"');
+        return;
+      }
+      if (v.type !== undefined && !VARIABLE_TYPES.includes(v.type)) add(`${path}.type`, `"${v.type}" is not one of ${VARIABLE_TYPES.join(', ')}`);
+      if (v.role !== undefined && !VARIABLE_ROLES.includes(v.role)) add(`${path}.role`, `"${v.role}" is not one of ${VARIABLE_ROLES.join(', ')}`);
+    });
+  }
+  if (!Array.isArray(raw.digital_flowchart) || raw.digital_flowchart.length === 0) {
+    add('digital_flowchart', 'must be a non-empty array of blocks');
+    return violations;
+  }
+
+  const blocks: any[] = raw.digital_flowchart;
+  const ids = new Set<number>();
+  blocks.forEach((block, i) => {
+    const path = `digital_flowchart[${i}]`;
+    if (!isObject(block)) {
+      add(path, 'must be an object');
+      return;
+    }
+    if (!isId(block.id)) add(`${path}.id`, 'must be a number');
+    else if (ids.has(block.id)) add(`${path}.id`, `id ${block.id} is used by more than one block`);
+    else ids.add(block.id);
+    if (!SHAPE_TYPES.includes(block.type)) add(`${path}.type`, `"${block.type}" is not one of ${SHAPE_TYPES.join(', ')}`);
+    if (typeof block.text !== 'string' || block.text.trim() === '') add(`${path}.text`, 'must be a non-empty string');
+  });
+
+  blocks.forEach((block, i) => {
+    if (!isObject(block)) return;
+    const path = `digital_flowchart[${i}]`;
+    for (const key of ['next', 'yes', 'no']) {
+      const target = block[key];
+      if (target != null && !ids.has(target)) add(`${path}.${key}`, `points to block ${target}, which does not exist`);
+    }
+    if (block.type === 'decision') {
+      if (block.yes == null) add(`${path}.yes`, 'a decision block needs a "yes" target');
+      if (block.no == null) add(`${path}.no`, 'a decision block needs a "no" target');
+    } else if (block.type !== 'end' && block.next == null && i === blocks.length - 1) {
+      add(`${path}.next`, `block ${block.id} is not an end block but has no "next" target`);
+    }
+  });
+
+  if (!blocks.some(b => isObject(b) && b.type === 'start')) add('digital_flowchart', 'there is no start block');
+  if (!blocks.some(b => isObject(b) && b.type === 'end')) add('digital_flowchart', 'there is no end block');
+  return violations;
+}
+
+export function validateSimulationResult(raw: any, flowchart: FlowchartStep[], variables: string[]): ValidationViolation[] {
+  const violations: ValidationViolation[] = [];
+  const add = (path: string, message: string) => violations.push({ path, message });
+
+  if (!isObject(raw)) {
+    add('$', 'the response must be a JSON object');
+    return violations;
+  }
+  if (typeof raw.accuracy_score !== 'number' || !Number.isFinite(raw.accuracy_score)) {
+    add('accuracy_score', `must be a number, got ${JSON.stringify(raw.accuracy_score ?? null)}`);
+  } else if (raw.accuracy_score < 0 || raw.accuracy_score > 100) {
+    add('accuracy_score', `must be between 0 and 100, got ${raw.accuracy_score}`);
+  }
+  if (typeof raw.is_correct !== 'boolean') add('is_correct', 'must be true or false');
+  if (!Array.isArray(raw.dry_run) || raw.dry_run.length === 0) {
+    add('dry_run', 'must be a non-empty array of steps');
+    return violations;
+  }
+
+  const blockIds = new Set(flowchart.map(s => s.id));
+  const known = new Set(variables);
+  const validIds: number[] = [];
+  raw.dry_run.forEach((step: any, i: number) => {
+    const path = `dry_run[${i}]`;
+    if (!isObject(step)) {
+      add(path, 'must be an object');
+      return;
+    }
+    if (!isId(step.step_number)) add(`${path}.step_number`, 'is missing or not a number');
+    else if (step.step_number !== i + 1) add(`${path}.step_number`, `should be ${i + 1}, got ${step.step_number}`);
+
+    if (!isId(step.flowchart_step_id)) add(`${path}.flowchart_step_id`, 'is missing or not a number');
+    else if (!blockIds.has(step.flowchart_step_id)) add(`${path}.flowchart_step_id`, `block ${step.flowchart_step_id} does not exist in the flowchart`);
+    else validIds.push(step.flowchart_step_id);
+
+    if (!isObject(step.variable_state)) {
+      add(`${path}.variable_state`, 'must be an object of variable values');
+    } else if (known.size > 0) {
+      for (const name of Object.keys(step.variable_state)) {
+        if (!known.has(name)) add(`${path}.variable_state.${name}`, `"${name}" is not one of the flowchart's variables (${variables.join(', ')})`);
+      }
+    }
+  });
+
+  // Only meaningful when every step points at a real block
+  if (validIds.length === raw.dry_run.length) {
+    for (const i of findIllegalTransitions(flowchart, validIds)) {
+      add(`dry_run[${i}].flowchart_step_id`, `moving from block ${validIds[i - 1]} to block ${validIds[i]} does not follow any edge of the flowchart`);
+    }
+  }
+  return violations;
+}
+
+export function formatViolations(violations: ValidationViolation[]): string {
+  return violations.map(v => `- ${v.path}: ${v.message}`).join('\n');
+}
@@ -0,0 +1,107 @@
+import { LabRecord, ParseResult } from "../types";
+
+// Labs bundled with the app. Their AI responses ship as recordings, so they
+// open and run in replay mode without a network connection.
+
+export interface SampleLab {
+  id: string;
+  title: string;
+  description: string;
+  inputs: Record<string, string>;
+  flowchart: ParseResult;
+}
+
+export const SAMPLE_LABS: SampleLab[] = [
+  {
+    id: "sample-factorial",
+    title: "Factorial",
+    description: "Read a whole number n and print n! = 1 × 2 × ... × n, computed with a loop.",
+    inputs: { n: "5" },
+    flowchart: {
+      variables: [
+        { name: "n", type: "integer", role: "input" },
+        { name: "fact", type: "integer", role: "internal" },
+        { name: "i", type: "integer", role: "internal" },
+      ],
+      digital_flowchart: [
+        { id: 1, type: "start", text: "Start", next: 2 },
+        { id: 2, type: "input", text: "Read n", next: 3 },
+        { id: 3, type: "process", text: "fact = 1, i = 1", next: 4 },
+        { id: 4, type: "decision", text: "i <= n?", yes: 5, no: 6 },
+        { id: 5, type: "process", text: "fact = fact * i; i = i + 1", next: 4 },
+        { id: 6, type: "output", text: "Print fact", next: 7 },
+        { id: 7, type: "end", text: "End", next: null },
+      ],
+    },
+  },
+  {
+    id: "sample-bubble-sort",
+    title: "Bubble sort",
+    description: "Read an array and sort it in ascending order with bubble sort: repeatedly swap neighbouring elements that are out of order, then print the array.",
+    inputs: { arr: "[5, 1, 4, 2, 8]" },
+    flowchart: {
+      variables: [
+        { name: "arr", type: "array", role: "input" },
+        { name: "n", type: "integer", role: "internal" },
+        { name: "i", type: "integer", role: "internal" },
+        { name: "j", type: "integer", role: "internal" },
+      ],
+      digital_flowchart: [
+        { id: 1, type: "start", text: "Start", next: 2 },
+        { id: 2, type: "input", text: "Read arr", next: 3 },
+        { id: 3, type: "process", text: "n = len(arr); i = 0", next: 4 },
+        { id: 4, type: "decision", text: "i < n - 1?", yes: 5, no: 10 },
+        { id: 5, type: "process", text: "j = 0", next: 6 },
+        { id: 6, type: "decision", text: "j < n - i - 1?", yes: 7, no: 9 },
+        { id: 7, type: "decision", text: "arr[j] > arr[j + 1]?", yes: 8, no: 11 },
+        { id: 8, type: "process", text: "swap arr[j] and arr[j + 1]", next: 11 },
+        { id: 9, type: "process", text: "i = i + 1", next: 4 },
+        { id: 10, type: "output", text: "Print arr", next: 12 },
+        { id: 11, type: "process", text: "j = j + 1", next: 6 },
+        { id: 12, type: "end", text: "End", next: null },
+      ],
+    },
+  },
+  {
+    id: "sample-prime-check",
+    title: "Prime check",
+    description: "Read a whole number n and print whether it is prime, trying every divisor i while i * i <= n.",
+    inputs: { n: "29" },
+    flowchart: {
+      variables: [
+        { name: "n", type: "integer", role: "input" },
+        { name: "is_prime", type: "boolean", role: "internal" },
+        { name: "i", type: "integer", role: "internal" },
+      ],
+      digital_flowchart: [
+        { id: 1, type: "start", text: "Start", next: 2 },
+        { id: 2, type: "input", text: "Read n", next: 3 },
+        { id: 3, type: "process", text: "is_prime = n > 1; i = 2", next: 4 },
+        { id: 4, type: "decision", text: "i * i <= n?", yes: 5, no: 8 },
+        { id: 5, type: "decision", text: "n % i == 0?", yes: 6, no: 7 },
+        { id: 6, type: "process", text: "is_prime = false", next: 8 },
+        { id: 7, type: "process", text: "i = i + 1", next: 4 },
+        { id: 8, type: "output", text: "Print is_prime", next: 9 },
+        { id: 9, type: "end", text: "End", next: null },
+      ],
+    },
+  },
+];
+
+// Opens already parsed, so "Run Simulation" with the bundled inputs replays at once
+export function sampleLabRecord(sample: SampleLab, id: string): LabRecord {
+  const now = Date.now();
+  return {
+    id,
+    title: sample.title,
+    description: sample.description,
+    images: [],
+    mode: "text",
+    parsedData: JSON.parse(JSON.stringify(sample.flowchart)),
+    inputs: { ...sample.inputs },
+    simulationData: null,
+    testCases: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,75 @@
+import { AISettings, AITask, ProviderId, RecordingMode, TaskSettings } from "../types";
+
+const STORAGE_KEY = 'flowlab.aiSettings';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  stub: 'Offline stub',
+};
+
+export const RECORDING_MODE_LABELS: Record<RecordingMode, string> = {
+  off: 'Live',
+  record: 'Record',
+  replay: 'Replay',
+};
+
+export function defaultTaskSettings(provider: ProviderId): Record<AITask, TaskSettings> {
+  switch (provider) {
+    case 'openai':
+      return {
+        parse: { model: 'gpt-4o-mini', temperature: 0, thinkingBudget: null },
+        simulate: { model: 'gpt-4o', temperature: 0, thinkingBudget: null },
+      };
+    case 'stub':
+      return {
+        parse: { model: 'stub', temperature: null, thinkingBudget: null },
+        simulate: { model: 'stub', temperature: null, thinkingBudget: null },
+      };
+    default:
+      return {
+        parse: { model: 'gemini-3-flash-preview', temperature: null, thinkingBudget: null },
+        // Maximum thinking budget for complex logic dry-runs
+        simulate: { model: 'gemini-3-pro-preview', temperature: null, thinkingBudget: 32768 },
+      };
+  }
+}
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  recording: 'off',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  tasks: defaultTaskSettings('gemini'),
+};
+
+export function loadAISettings(): AISettings {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return DEFAULT_AI_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<AISettings>;
+    const provider = stored.provider && stored.provider in PROVIDER_LABELS ? stored.provider : DEFAULT_AI_SETTINGS.provider;
+    const defaults = defaultTaskSettings(provider);
+    return {
+      ...DEFAULT_AI_SETTINGS,
+      ...stored,
+      provider,
+      recording: stored.recording && stored.recording in RECORDING_MODE_LABELS ? stored.recording : 'off',
+      tasks: {
+        parse: { ...defaults.parse, ...stored.tasks?.parse },
+        simulate: { ...defaults.simulate, ...stored.tasks?.simulate },
+      },
+    };
+  } catch (err) {
+    console.error("Failed to load AI settings:", err);
+    return DEFAULT_AI_SETTINGS;
+  }
+}
+
+export function saveAISettings(settings: AISettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Failed to save AI settings:", err);
+  }
+}
@@ -0,0 +1,172 @@
+import { FlowchartStep, LineRange, SourceLanguage } from "../types";
+
+// Code typed in as the algorithm: highlighting for the editor, and the
+// mapping from flowchart blocks back to the source lines they came from.
+
+export const SOURCE_LANGUAGE_LABELS: Record<SourceLanguage, string> = {
+  python: "Python",
+  c: "C",
+  cpp: "C++",
+  java: "Java",
+  javascript: "JavaScript",
+};
+
+export type TokenKind = "keyword" | "string" | "comment" | "number" | "plain";
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+interface Syntax {
+  keywords: string[];
+  lineComment: string;
+  blockComment?: [string, string];
+  // Python's """ and ''' strings
+  tripleQuotes?: boolean;
+  quotes: string;
+}
+
+const C_KEYWORDS = [
+  "auto", "break", "case", "char", "const", "continue", "default", "do", "double", "else", "enum", "extern",
+  "float", "for", "goto", "if", "int", "long", "register", "return", "short", "signed", "sizeof", "static",
+  "struct", "switch", "typedef", "union", "unsigned", "void", "volatile", "while", "bool", "true", "false", "NULL",
+];
+
+const SYNTAX: Record<SourceLanguage, Syntax> = {
+  python: {
+    keywords: [
+      "False", "None", "True", "and", "as", "assert", "break", "class", "continue", "def", "del", "elif", "else",
+      "except", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "nonlocal", "not", "or",
+      "pass", "raise", "return", "try", "while", "with", "yield", "print", "input", "range", "len", "int", "float",
+    ],
+    lineComment: "#",
+    tripleQuotes: true,
+    quotes: "'\"",
+  },
+  c: { keywords: [...C_KEYWORDS, "printf", "scanf"], lineComment: "//", blockComment: ["/*", "*/"], quotes: "'\"" },
+  cpp: {
+    keywords: [
+      ...C_KEYWORDS, "class", "namespace", "new", "delete", "nullptr", "private", "public", "protected", "template",
+      "this", "using", "std", "cin", "cout", "endl", "string", "vector", "auto",
+    ],
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    quotes: "'\"",
+  },
+  java: {
+    keywords: [
+      "abstract", "boolean", "break", "byte", "case", "catch", "char", "class", "continue", "default", "do", "double",
+      "else", "extends", "final", "finally", "float", "for", "if", "implements", "import", "int", "interface", "long",
+      "new", "null", "package", "private", "protected", "public", "return", "short", "static", "super", "switch",
+      "this", "throw", "throws", "true", "false", "try", "void", "while", "String", "System", "Scanner",
+    ],
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    quotes: "'\"",
+  },
+  javascript: {
+    keywords: [
+      "break", "case", "catch", "class", "const", "continue", "default", "delete", "do", "else", "false", "for",
+      "function", "if", "in", "let", "new", "null", "of", "return", "switch", "this", "throw", "true", "try",
+      "typeof", "undefined", "var", "while", "console", "prompt",
+    ],
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    quotes: "'\"`",
+  },
+};
+
+const NUMBER = /0[xX][0-9a-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+/y;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+
+const matchAt = (pattern: RegExp, text: string, at: number) => {
+  pattern.lastIndex = at;
+  return pattern.exec(text)?.[0] ?? null;
+};
+
+// End of a quoted string starting at `at`; unterminated strings stop at the end of the line
+function stringEnd(source: string, at: number, quote: string): number {
+  for (let i = at + 1; i < source.length; i++) {
+    if (source[i] === "\\") i++;
+    else if (source[i] === quote) return i + 1;
+    else if (source[i] === "\n" && quote !== "`") return i;
+  }
+  return source.length;
+}
+
+// One token list per source line; comments and strings may span lines
+export function highlightSource(source: string, language: SourceLanguage): Token[][] {
+  const syntax = SYNTAX[language];
+  const keywords = new Set(syntax.keywords);
+  const tokens: Token[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (kind === "plain" && last?.kind === "plain") last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const rest = (s: string) => source.startsWith(s, i);
+    let end: number;
+    if (syntax.blockComment && rest(syntax.blockComment[0])) {
+      const close = source.indexOf(syntax.blockComment[1], i + syntax.blockComment[0].length);
+      end = close < 0 ? source.length : close + syntax.blockComment[1].length;
+      push("comment", source.slice(i, end));
+    } else if (rest(syntax.lineComment)) {
+      const newline = source.indexOf("\n", i);
+      end = newline < 0 ? source.length : newline;
+      push("comment", source.slice(i, end));
+    } else if (syntax.tripleQuotes && (rest('"""') || rest("'''"))) {
+      const close = source.indexOf(source.slice(i, i + 3), i + 3);
+      end = close < 0 ? source.length : close + 3;
+      push("string", source.slice(i, end));
+    } else if (syntax.quotes.includes(source[i])) {
+      end = stringEnd(source, i, source[i]);
+      push("string", source.slice(i, end));
+    } else {
+      const number = /[\d.]/.test(source[i]) ? matchAt(NUMBER, source, i) : null;
+      const word = number ? null : matchAt(IDENTIFIER, source, i);
+      if (number) push("number", number);
+      else if (word) push(keywords.has(word) ? "keyword" : "plain", word);
+      else push("plain", source[i]);
+      end = i + (number || word || source[i]).length;
+    }
+    i = end;
+  }
+
+  const lines: Token[][] = [[]];
+  for (const token of tokens) {
+    token.text.split("\n").forEach((part, n) => {
+      if (n > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ kind: token.kind, text: part });
+    });
+  }
+  return lines;
+}
+
+// The model reports "lines": [start, end], 1-based and inclusive; a range already normalized is kept
+export function normalizeStepLines(step: any): FlowchartStep {
+  const { lines, ...rest } = step;
+  const [start, end] = Array.isArray(lines) ? lines : [lines?.start, lines?.end ?? lines?.start];
+  if (!Number.isInteger(start) || start < 1) return rest;
+  return { ...rest, lines: { start, end: Number.isInteger(end) && end >= start ? end : start } };
+}
+
+export const inLineRange = (range: LineRange | null | undefined, line: number) =>
+  !!range && line >= range.start && line <= range.end;
+
+// The block made from `line`; the narrowest range wins, e.g. a loop body line over the whole loop
+export function stepAtLine(steps: FlowchartStep[], line: number): FlowchartStep | null {
+  let best: FlowchartStep | null = null;
+  for (const step of steps) {
+    if (!inLineRange(step.lines, line)) continue;
+    if (!best || step.lines!.end - step.lines!.start < best.lines!.end - best.lines!.start) best = step;
+  }
+  return best;
+}
+
+export function hasLineRanges(steps: FlowchartStep[]): boolean {
+  return steps.some(s => s.lines);
+}
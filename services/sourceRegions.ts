@@ -0,0 +1,34 @@
+import { FlowchartStep, SourceRegion } from "../types";
+
+// Links parsed blocks back to where they were drawn on the uploaded pages.
+
+// Models report boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid, the convention Gemini is trained on
+const BOX_SCALE = 1000;
+
+const isFraction = (n: unknown) => typeof n === "number" && Number.isFinite(n) && n >= 0 && n <= 1;
+
+function isRegion(value: any): value is SourceRegion {
+  return !!value && Number.isInteger(value.page) && value.page >= 0
+    && [value.x, value.y, value.width, value.height].every(isFraction)
+    && value.width > 0 && value.height > 0;
+}
+
+// `page` is 1-based, as the prompt numbers the images
+export function regionFromBox(box: unknown, page: unknown): SourceRegion | undefined {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === "number" && Number.isFinite(n))) return undefined;
+  const [ymin, xmin, ymax, xmax] = box.map(n => Math.min(BOX_SCALE, Math.max(0, n)) / BOX_SCALE);
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+  const pageIndex = typeof page === "number" && Number.isInteger(page) && page >= 1 ? page - 1 : 0;
+  return { page: pageIndex, x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+}
+
+// Replaces the model's box_2d and page fields with a region; a region that is already normalized is kept
+export function normalizeStepRegion(step: any): FlowchartStep {
+  const { box_2d, page, region, ...rest } = step;
+  const normalized = isRegion(region) ? region : regionFromBox(box_2d, page);
+  return normalized ? { ...rest, region: normalized } : rest;
+}
+
+export function hasRegions(steps: FlowchartStep[]): boolean {
+  return steps.some(s => s.region);
+}
@@ -0,0 +1,85 @@
+// Incremental parser for a JSON object that is still being generated. It pulls
+// the complete elements of one top-level array (e.g. "dry_run") out of the
+// text received so far, without waiting for the closing brace.
+
+export class StreamingArrayParser {
+  readonly items: unknown[] = [];
+  private text = "";
+  private pos = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  // Last string seen directly inside the top-level object; a "[" right after it opens that key's array
+  private lastKey: string | null = null;
+  private phase: "seek" | "array" | "done" = "seek";
+  private elementStart = -1;
+
+  constructor(private readonly key: string) {}
+
+  private reset() {
+    this.items.length = 0;
+    this.text = "";
+    this.pos = 0;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.lastKey = null;
+    this.phase = "seek";
+    this.elementStart = -1;
+  }
+
+  // `text` is the whole response so far. A text that does not extend the
+  // previous one (a retried request) starts over. Returns true when the items changed.
+  update(text: string): boolean {
+    let changed = false;
+    if (!text.startsWith(this.text)) {
+      changed = this.items.length > 0;
+      this.reset();
+    }
+    this.text = text;
+    const before = this.items.length;
+
+    for (; this.pos < text.length && this.phase !== "done"; this.pos++) {
+      const c = text[this.pos];
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (c === "\\") this.escaped = true;
+        else if (c === '"') {
+          this.inString = false;
+          if (this.phase === "seek" && this.depth === 1) this.lastKey = JSON.parse(text.slice(this.stringStart, this.pos + 1));
+        }
+        continue;
+      }
+
+      if (c === '"') {
+        this.inString = true;
+        this.stringStart = this.pos;
+      } else if (c === "{" || c === "[") {
+        if (this.phase === "seek" && this.depth === 1 && c === "[" && this.lastKey === this.key) {
+          this.phase = "array";
+        } else if (this.phase === "array" && this.depth === 2 && this.elementStart < 0) {
+          this.elementStart = this.pos;
+        }
+        this.depth++;
+      } else if (c === "}" || c === "]") {
+        this.depth--;
+        if (this.phase === "array") {
+          if (this.depth === 1) this.phase = "done";
+          else if (this.depth === 2 && this.elementStart >= 0) {
+            try {
+              this.items.push(JSON.parse(text.slice(this.elementStart, this.pos + 1)));
+            } catch {
+              // Malformed output; stop streaming and leave it to the final validation
+              this.phase = "done";
+            }
+            this.elementStart = -1;
+          }
+        }
+      } else if (c === "," && this.depth === 1) {
+        this.lastKey = null;
+      }
+    }
+    return changed || this.items.length > before;
+  }
+}
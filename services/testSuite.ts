@@ -0,0 +1,28 @@
+import { SimulationResult, TestCase, VariableSpec } from "../types";
+import { parseInputValue } from "./expression";
+import { sameValue } from "./traceVerifier";
+import { keepInputs, validateInputs } from "./variableTypes";
+
+// Pause between cases so a suite run does not burst through the shared quota
+export const SUITE_CASE_DELAY_MS = 1500;
+
+export function createTestCase(variables: VariableSpec[], index: number, inputs: Record<string, string> = {}): TestCase {
+  return {
+    id: `case-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    name: `Case ${index + 1}`,
+    inputs: keepInputs(variables, inputs),
+    expected_output: '',
+  };
+}
+
+// Every input variable has a value that parses as its declared type
+export function isTestCaseComplete(testCase: TestCase, variables: VariableSpec[]): boolean {
+  return Object.keys(validateInputs(variables, testCase.inputs)).length === 0;
+}
+
+// A case passes when the AI's output matches the expected output the user
+// typed, or, when none was given, when the AI judged the logic correct.
+export function didTestCasePass(testCase: TestCase, simulation: SimulationResult): boolean {
+  if (testCase.expected_output.trim() === '') return simulation.is_correct;
+  return sameValue(parseInputValue(testCase.expected_output), simulation.actual_output);
+}
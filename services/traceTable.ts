@@ -0,0 +1,132 @@
+import { FlowchartStep, SimulationResult } from "../types";
+
+// Classic dry-run trace table: one row per step, one column per variable.
+
+export interface TraceTableRow {
+  step_number: number;
+  flowchart_step_id: number;
+  block: string;
+  description: string;
+  values: Record<string, any>;
+  changed: Record<string, boolean>;
+}
+
+export interface TraceTable {
+  columns: string[];
+  rows: TraceTableRow[];
+}
+
+const sameCell = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+export function buildTraceTable(simulation: SimulationResult, variables: string[], flowchart: FlowchartStep[] = []): TraceTable {
+  const steps = simulation.dry_run || [];
+  // Declared variables first, then anything else the trace introduced
+  const columns = [...variables];
+  for (const step of steps) {
+    for (const key of Object.keys(step.variable_state || {})) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  const rows = steps.map((step, i) => {
+    const state = step.variable_state || {};
+    const previous = i > 0 ? steps[i - 1].variable_state || {} : {};
+    const changed: Record<string, boolean> = {};
+    for (const column of columns) {
+      changed[column] = state[column] !== undefined && (i === 0 ? state[column] !== null : !sameCell(state[column], previous[column]));
+    }
+    const block = flowchart.find(s => s.id === step.flowchart_step_id);
+    return {
+      step_number: step.step_number ?? i + 1,
+      flowchart_step_id: step.flowchart_step_id,
+      block: block ? block.text : `#${step.flowchart_step_id}`,
+      description: String(step.description ?? ''),
+      values: columns.reduce((acc, c) => ({ ...acc, [c]: state[c] }), {} as Record<string, any>),
+      changed,
+    };
+  });
+
+  return { columns, rows };
+}
+
+export function formatCell(value: any): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function headers(table: TraceTable): string[] {
+  return ['Step', 'Block', ...table.columns, 'Description'];
+}
+
+function cells(row: TraceTableRow, table: TraceTable): string[] {
+  return [String(row.step_number), row.block, ...table.columns.map(c => formatCell(row.values[c])), row.description];
+}
+
+export function traceTableToCSV(table: TraceTable): string {
+  const escape = (cell: string) => (/[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return [headers(table), ...table.rows.map(row => cells(row, table))]
+    .map(line => line.map(escape).join(','))
+    .join('\r\n');
+}
+
+export function traceTableToMarkdown(table: TraceTable): string {
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  const head = headers(table);
+  const lines = [
+    `| ${head.map(escape).join(' | ')} |`,
+    `| ${head.map(() => '---').join(' | ')} |`,
+    // Changed cells are bolded, the Markdown equivalent of the highlight
+    ...table.rows.map(row => {
+      const values = table.columns.map(c => {
+        const text = escape(formatCell(row.values[c]));
+        return row.changed[c] && text ? `**${text}**` : text;
+      });
+      return `| ${[String(row.step_number), escape(row.block), ...values, escape(row.description)].join(' | ')} |`;
+    }),
+  ];
+  return lines.join('\n');
+}
+
+export function traceTableToHTML(table: TraceTable, title: string): string {
+  const escape = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  const headerRow = headers(table).map(h => `<th>${escape(h)}</th>`).join('');
+  const bodyRows = table.rows.map(row => {
+    const values = table.columns
+      .map(c => `<td class="${row.changed[c] ? 'changed' : ''}">${escape(formatCell(row.values[c]))}</td>`)
+      .join('');
+    return `<tr><td>${row.step_number}</td><td>${escape(row.block)}</td>${values}<td class="desc">${escape(row.description)}</td></tr>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escape(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1e293b; }
+  h1 { font-size: 1.25rem; }
+  table { border-collapse: collapse; font-size: 0.875rem; }
+  th, td { border: 1px solid #cbd5e1; padding: 0.4rem 0.75rem; text-align: left; }
+  th { background: #f1f5f9; }
+  td { font-family: ui-monospace, monospace; }
+  td.desc { font-family: system-ui, sans-serif; color: #475569; }
+  td.changed { background: #fef3c7; font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>${escape(title)}</h1>
+<table>
+<thead><tr>${headerRow}</tr></thead>
+<tbody>
+${bodyRows}
+</tbody>
+</table>
+<p><small>Highlighted cells changed in that step.</small></p>
+</body>
+</html>
+`;
+}
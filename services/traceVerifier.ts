@@ -0,0 +1,133 @@
+import { ParseResult, SimulationResult, TraceDiscrepancy, TraceVerification } from "../types";
+import { Value, formatValue, parseInputValue } from "./expression";
+import { findIllegalTransitions } from "./flowGraph";
+import { executeFlowchart } from "./interpreter";
+import { typedInputs, variableNames } from "./variableTypes";
+
+const FLOAT_TOLERANCE = 1e-6;
+
+function isUnset(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// The model is free to write 5 as "5" or [1, 2] as "[1, 2]", so its values are
+// coerced towards the interpreter's before comparing.
+export function sameValue(expected: Value | undefined, actual: unknown): boolean {
+  if (isUnset(expected) || isUnset(actual)) return isUnset(expected) && isUnset(actual);
+  let candidate = actual as Value;
+  if (typeof candidate === 'string' && typeof expected !== 'string') candidate = parseInputValue(candidate);
+
+  if (Array.isArray(expected)) {
+    return Array.isArray(candidate)
+      && candidate.length === expected.length
+      && expected.every((item, i) => sameValue(item, (candidate as Value[])[i]));
+  }
+  if (typeof expected === 'number' && typeof candidate === 'number') {
+    return Math.abs(expected - candidate) <= FLOAT_TOLERANCE * Math.max(1, Math.abs(expected));
+  }
+  if (typeof expected === 'string' && typeof candidate !== 'string') {
+    return expected === formatValue(candidate);
+  }
+  return expected === candidate;
+}
+
+export function verifyTrace(
+  parsed: ParseResult,
+  inputs: Record<string, string>,
+  simulation: SimulationResult
+): TraceVerification {
+  const variables = parsed.variables || [];
+  const provided = typedInputs(variables, inputs);
+  const interpreter = executeFlowchart(parsed.digital_flowchart || [], provided, variableNames(variables));
+  const discrepancies: TraceDiscrepancy[] = [];
+  const modelSteps = simulation.dry_run || [];
+  const declared = new Set(variableNames(variables));
+  const compared = Math.min(interpreter.steps.length, modelSteps.length);
+
+  const modelIds = modelSteps.map(s => s.flowchart_step_id);
+  for (const i of findIllegalTransitions(parsed.digital_flowchart || [], modelIds)) {
+    discrepancies.push({
+      step_index: i,
+      field: 'transition',
+      expected: null,
+      actual: [modelIds[i - 1], modelIds[i]],
+      message: `Step ${i + 1}: the AI trace jumps from block ${modelIds[i - 1]} to block ${modelIds[i]}, which are not connected`,
+    });
+  }
+
+  for (let i = 0; i < compared; i++) {
+    const expected = interpreter.steps[i];
+    const actual = modelSteps[i];
+
+    if (expected.flowchart_step_id !== actual.flowchart_step_id) {
+      discrepancies.push({
+        step_index: i,
+        field: 'flowchart_step_id',
+        expected: expected.flowchart_step_id,
+        actual: actual.flowchart_step_id,
+        message: `Step ${i + 1} should be at block ${expected.flowchart_step_id}, the AI trace is at block ${actual.flowchart_step_id}`,
+      });
+    }
+
+    const modelState = actual.variable_state || {};
+    const keys = new Set([
+      ...Object.keys(expected.variable_state),
+      ...Object.keys(modelState).filter(k => declared.has(k)),
+    ]);
+    for (const key of keys) {
+      // Leaving out an input that still holds its entered value is not a disagreement,
+      // and neither is showing the entered value before the input block has read it.
+      if (!(key in modelState) && sameValue(provided[key], expected.variable_state[key])) continue;
+      if (!(key in expected.variable_state) && sameValue(provided[key], modelState[key])) continue;
+      if (sameValue(expected.variable_state[key], modelState[key])) continue;
+      discrepancies.push({
+        step_index: i,
+        field: 'variable_state',
+        variable: key,
+        expected: expected.variable_state[key],
+        actual: modelState[key],
+        message: `Step ${i + 1}: ${key} should be ${JSON.stringify(expected.variable_state[key] ?? null)}, the AI trace has ${JSON.stringify(modelState[key] ?? null)}`,
+      });
+    }
+  }
+
+  discrepancies.sort((a, b) => a.step_index - b.step_index);
+
+  if (interpreter.status !== 'completed') {
+    return {
+      status: 'unverified',
+      summary: `The interpreter could not run this flowchart to the end. ${interpreter.message}`,
+      interpreter,
+      discrepancies,
+    };
+  }
+
+  if (interpreter.steps.length !== modelSteps.length) {
+    discrepancies.push({
+      step_index: compared,
+      field: 'length',
+      expected: interpreter.steps.length,
+      actual: modelSteps.length,
+      message: `The interpreter executed ${interpreter.steps.length} steps, the AI trace has ${modelSteps.length}`,
+    });
+  }
+
+  if (interpreter.outputs.length > 0 && !sameValue(interpreter.actual_output, simulation.actual_output)) {
+    discrepancies.push({
+      step_index: Math.max(0, interpreter.steps.length - 1),
+      field: 'actual_output',
+      expected: interpreter.actual_output,
+      actual: simulation.actual_output,
+      message: `The flowchart outputs ${JSON.stringify(interpreter.actual_output)}, the AI reported ${JSON.stringify(simulation.actual_output)}`,
+    });
+  }
+
+  return {
+    status: discrepancies.length === 0 ? 'verified' : 'mismatch',
+    summary: discrepancies.length === 0
+      ? `All ${modelSteps.length} steps match an independent execution of the flowchart.`
+      : `${discrepancies.length} disagreement${discrepancies.length === 1 ? '' : 's'} between the AI trace and the interpreter.`,
+    interpreter,
+    discrepancies,
+  };
+}
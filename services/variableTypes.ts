@@ -0,0 +1,253 @@
+import { FlowchartStep, VariableRole, VariableSpec, VariableType } from "../types";
+import { Expr, Value, evaluate, parseExpression } from "./expression";
+import { Statement, parseStepStatements, splitTopLevel } from "./interpreter";
+
+// Declared variable types: parsing what the user typed into a value of that
+// type, and guessing types for flowcharts that only list variable names.
+
+export const VARIABLE_TYPES: VariableType[] = ["integer", "float", "boolean", "string", "array", "matrix"];
+export const VARIABLE_ROLES: VariableRole[] = ["input", "internal"];
+
+export const VARIABLE_TYPE_LABELS: Record<VariableType, string> = {
+  integer: "Integer",
+  float: "Float",
+  boolean: "Boolean",
+  string: "String",
+  array: "Array",
+  matrix: "Matrix",
+};
+
+export const VARIABLE_PLACEHOLDERS: Record<VariableType, string> = {
+  integer: "e.g. 5",
+  float: "e.g. 2.5",
+  boolean: "",
+  string: "e.g. hello",
+  array: "e.g. 5, 1, 4, 2",
+  matrix: "One row per line, e.g.\n1 2 3\n4 5 6",
+};
+
+export function variableNames(variables: VariableSpec[]): string[] {
+  return variables.map(v => v.name);
+}
+
+export function inputVariables(variables: VariableSpec[]): VariableSpec[] {
+  return variables.filter(v => v.role === "input");
+}
+
+export type ParsedInput = { ok: true; value: Value; message?: undefined } | { ok: false; value?: undefined; message: string };
+
+const INTEGER = /^[+-]?\d+$/;
+const FLOAT = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+const BOOLEANS: Record<string, boolean> = { true: true, false: false, yes: true, no: false, "1": true, "0": false };
+
+// A single array or matrix element: a literal if it is one, otherwise the bare text
+function parseElement(text: string): Value {
+  const trimmed = text.trim();
+  try {
+    const value = evaluate(parseExpression(trimmed), {});
+    if (!Array.isArray(value)) return value;
+  } catch {
+    // Not a literal; fall through to plain text
+  }
+  return trimmed.replace(/^(["'])(.*)\1$/, "$2");
+}
+
+function unbracket(text: string): string | null {
+  if (!text.startsWith("[")) return text;
+  return text.endsWith("]") ? text.slice(1, -1).trim() : null;
+}
+
+function parseArray(text: string): ParsedInput {
+  const body = unbracket(text);
+  if (body === null) return { ok: false, message: "is missing a closing ]" };
+  if (body === "") return { ok: true, value: [] };
+  const items = splitTopLevel(body, ",");
+  if (items.some(item => item.trim() === "")) return { ok: false, message: "has an empty item; separate values with single commas" };
+  if (items.some(item => item.includes("["))) return { ok: false, message: "contains a nested list; declare it as a matrix instead" };
+  return { ok: true, value: items.map(parseElement) };
+}
+
+// "[[1, 2], [3, 4]]", or one row per line (or per ";") with items split by commas or spaces
+function parseMatrix(text: string): ParsedInput {
+  let rows: string[];
+  if (text.startsWith("[")) {
+    const body = unbracket(text);
+    if (body === null) return { ok: false, message: "is missing a closing ]" };
+    rows = body === "" ? [] : splitTopLevel(body, ",");
+    if (rows.some(row => !/^\s*\[.*\]\s*$/s.test(row))) return { ok: false, message: "must be a list of rows, e.g. [[1, 2], [3, 4]]" };
+  } else {
+    rows = text.split(/[\n;]/).filter(row => row.trim() !== "");
+  }
+
+  const matrix: Value[][] = [];
+  for (const row of rows) {
+    const body = unbracket(row.trim());
+    if (body === null) return { ok: false, message: "has a row with a missing ]" };
+    const items = body === "" ? [] : body.includes(",") ? splitTopLevel(body, ",") : body.split(/\s+/);
+    if (items.some(item => item.trim() === "")) return { ok: false, message: "has an empty item in a row" };
+    matrix.push(items.map(parseElement));
+  }
+  if (matrix.some(row => row.length !== matrix[0].length)) return { ok: false, message: "has rows of different lengths" };
+  return { ok: true, value: matrix };
+}
+
+export function parseTypedInput(raw: string, type: VariableType): ParsedInput {
+  const trimmed = (raw ?? "").trim();
+  if (trimmed === "") return { ok: false, message: "needs a value" };
+  switch (type) {
+    case "integer":
+      return INTEGER.test(trimmed) ? { ok: true, value: Number(trimmed) } : { ok: false, message: "must be a whole number" };
+    case "float":
+      return FLOAT.test(trimmed) ? { ok: true, value: Number(trimmed) } : { ok: false, message: "must be a number" };
+    case "boolean": {
+      const value = BOOLEANS[trimmed.toLowerCase()];
+      return value === undefined ? { ok: false, message: "must be true or false" } : { ok: true, value };
+    }
+    case "string":
+      return { ok: true, value: raw };
+    case "array":
+      return parseArray(trimmed);
+    case "matrix":
+      return parseMatrix(trimmed);
+  }
+}
+
+// Problems with the entered values, keyed by variable name; only input variables are checked.
+export function validateInputs(variables: VariableSpec[], inputs: Record<string, string>): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const variable of inputVariables(variables)) {
+    const parsed = parseTypedInput(inputs[variable.name], variable.type);
+    if (!parsed.ok) errors[variable.name] = parsed.message;
+  }
+  return errors;
+}
+
+// Typed values of the input variables; anything that does not parse is left out.
+export function typedInputs(variables: VariableSpec[], inputs: Record<string, string>): Record<string, Value> {
+  const values: Record<string, Value> = {};
+  for (const variable of inputVariables(variables)) {
+    const parsed = parseTypedInput(inputs[variable.name], variable.type);
+    if (parsed.ok) values[variable.name] = parsed.value;
+  }
+  return values;
+}
+
+// Keeps the entered text of the input variables that are still declared
+export function keepInputs(variables: VariableSpec[], inputs: Record<string, string>): Record<string, string> {
+  return inputVariables(variables).reduce((acc, v) => ({ ...acc, [v.name]: inputs[v.name] ?? "" }), {} as Record<string, string>);
+}
+
+// ------------------------------------------------------------------ inference
+
+export function subExpressions(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case "array": return expr.items;
+    case "index": return [expr.target, expr.index];
+    case "call": return expr.args;
+    case "unary": return [expr.operand];
+    case "binary": return [expr.left, expr.right];
+    default: return [];
+  }
+}
+
+export function statementExpressions(statement: Statement): Expr[] {
+  switch (statement.kind) {
+    case "assign": return [statement.target, statement.value];
+    case "swap": return [statement.left, statement.right];
+    case "output": return statement.values;
+    case "condition": return [statement.test];
+    default: return [];
+  }
+}
+
+function literalType(expr: Expr): VariableType | null {
+  if (expr.kind === "array") return expr.items.some(item => item.kind === "array") ? "matrix" : "array";
+  if (expr.kind === "binary" && expr.operator === "/") return "float";
+  if (expr.kind !== "literal") return null;
+  const value = expr.value;
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "string") return "string";
+  if (typeof value === "number") return Number.isInteger(value) ? null : "float";
+  return null;
+}
+
+interface Usage {
+  read: boolean;
+  assigned: boolean;
+  depth: number;
+  literal: VariableType | null;
+}
+
+// Guesses each variable's type from how the blocks use it (a[i] is an array,
+// a[i][j] a matrix, x = 0.5 a float) and its role from whether an input block
+// reads it or nothing ever assigns it.
+export function inferVariableSpecs(steps: FlowchartStep[], names?: string[]): VariableSpec[] {
+  const usage = new Map<string, Usage>();
+  const use = (name: string) => {
+    if (!usage.has(name)) usage.set(name, { read: false, assigned: false, depth: 0, literal: null });
+    return usage.get(name)!;
+  };
+
+  const walk = (expr: Expr) => {
+    if (expr.kind === "index") {
+      let depth = 0;
+      let base: Expr = expr;
+      while (base.kind === "index") {
+        depth++;
+        base = base.target;
+      }
+      if (base.kind === "identifier") use(base.name).depth = Math.max(use(base.name).depth, depth);
+    }
+    if (expr.kind === "call" && /^(?:len|length|size|sum)$/i.test(expr.callee) && expr.args[0]?.kind === "identifier") {
+      const entry = use(expr.args[0].name);
+      entry.depth = Math.max(entry.depth, 1);
+    }
+    subExpressions(expr).forEach(walk);
+  };
+
+  for (const step of steps) {
+    let statements: Statement[];
+    try {
+      statements = parseStepStatements(step, names);
+    } catch {
+      continue;
+    }
+    for (const statement of statements) {
+      if (statement.kind === "input") statement.names.forEach(name => { use(name).read = true; });
+      if (statement.kind === "assign" && statement.target.kind === "identifier") {
+        const entry = use(statement.target.name);
+        entry.assigned = true;
+        entry.literal = entry.literal ?? literalType(statement.value);
+      }
+      statementExpressions(statement).forEach(walk);
+    }
+  }
+
+  const ordered = names ?? [
+    ...[...usage.entries()].filter(([, u]) => u.read).map(([name]) => name),
+    ...[...usage.entries()].filter(([, u]) => !u.read && u.assigned).map(([name]) => name),
+  ];
+  return ordered.map(name => {
+    const u = usage.get(name) ?? { read: false, assigned: false, depth: 0, literal: null };
+    const type: VariableType = u.depth >= 2 ? "matrix" : u.depth === 1 ? "array" : u.literal ?? "integer";
+    return { name, type, role: u.read || !u.assigned ? "input" : "internal" };
+  });
+}
+
+// Accepts the current { name, type, role } entries as well as the plain
+// names older labs and models produce, filling in whatever is missing.
+export function normalizeVariables(raw: unknown, steps: FlowchartStep[]): VariableSpec[] {
+  const entries: unknown[] = Array.isArray(raw) ? raw : [];
+  const nameOf = (entry: any): string => (typeof entry === "string" ? entry : String(entry?.name ?? "")).trim();
+  const names = [...new Set(entries.map(nameOf).filter(Boolean))];
+  const inferred = new Map(inferVariableSpecs(steps, names).map(v => [v.name, v]));
+  return names.map(name => {
+    const entry: any = entries.find(e => nameOf(e) === name);
+    const guess = inferred.get(name)!;
+    return {
+      name,
+      type: VARIABLE_TYPES.includes(entry?.type) ? entry.type : guess.type,
+      role: VARIABLE_ROLES.includes(entry?.role) ? entry.role : guess.role,
+    };
+  });
+}
@@ -1,10 +1,48 @@
 
 export type ShapeType = 'start' | 'process' | 'decision' | 'input' | 'output' | 'end';
 
+export type EdgeBranch = 'next' | 'yes' | 'no';
+
+// Where a block was drawn: a page index and fractions (0-1) of that page's width and height
+export interface SourceRegion {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type SourceLanguage = 'python' | 'c' | 'cpp' | 'java' | 'javascript';
+
+// 1-based, inclusive lines of the source code a block was made from
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
 export interface FlowchartStep {
   id: number;
   type: ShapeType;
   text: string;
+  // Successor of a non-decision block; null for 'end'
+  next?: number | null;
+  // Targets of a decision when its condition is true / false
+  yes?: number | null;
+  no?: number | null;
+  next_label?: string;
+  yes_label?: string;
+  no_label?: string;
+  // Only for blocks read from an uploaded image
+  region?: SourceRegion;
+  // Only for blocks parsed from source code
+  lines?: LineRange;
+}
+
+export interface FlowEdge {
+  from: number;
+  to: number;
+  branch: EdgeBranch;
+  label?: string;
 }
 
 export interface DryRunStep {
@@ -15,8 +53,21 @@ export interface DryRunStep {
   explanation?: string;
 }
 
+export type VariableType = 'integer' | 'float' | 'boolean' | 'string' | 'array' | 'matrix';
+
+// 'input' variables are entered before the run; 'internal' ones the algorithm computes
+export type VariableRole = 'input' | 'internal';
+
+export interface VariableSpec {
+  name: string;
+  type: VariableType;
+  role: VariableRole;
+}
+
+export type VariableValue = number | string | boolean | null | VariableValue[];
+
 export interface ParseResult {
-  variables: string[];
+  variables: VariableSpec[];
   digital_flowchart: FlowchartStep[];
 }
 
@@ -29,16 +80,225 @@ export interface SimulationResult {
   actual_output: any;
 }
 
+export interface ParseRequest {
+  description: string;
+  // Data URLs, one per page of the drawing, in order
+  images?: string[];
+  // Set when `description` is source code in this language
+  language?: SourceLanguage;
+}
+
+export interface SimulationRequest {
+  description: string;
+  // Values of the input variables, already parsed to their declared types
+  inputs: Record<string, VariableValue>;
+  digitalFlowchart: FlowchartStep[];
+  variables: VariableSpec[];
+  images?: string[];
+  language?: SourceLanguage;
+}
+
+export interface ValidationViolation {
+  // Location inside the response, e.g. "dry_run[3].flowchart_step_id"
+  path: string;
+  message: string;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'stub';
+
+export type AITask = 'parse' | 'simulate';
+
+export interface TaskSettings {
+  model: string;
+  // null leaves the provider's default in place
+  temperature: number | null;
+  thinkingBudget: number | null;
+}
+
+// 'record' stores every AI response; 'replay' serves stored ones and never calls a provider
+export type RecordingMode = 'off' | 'record' | 'replay';
+
+export interface AISettings {
+  provider: ProviderId;
+  recording: RecordingMode;
+  // Only used by the OpenAI-compatible provider
+  baseUrl: string;
+  apiKey: string;
+  tasks: Record<AITask, TaskSettings>;
+}
+
+export interface AIRecording {
+  // Task plus a SHA-256 hash of the request, e.g. "parse:3f9a..."
+  key: string;
+  task: AITask;
+  // First line of the description, to tell recordings apart
+  label: string;
+  response: ParseResult | SimulationResult;
+  recordedAt: number;
+}
+
+export interface InterpreterResult {
+  status: 'completed' | 'halted' | 'error';
+  steps: DryRunStep[];
+  outputs: any[];
+  actual_output: any;
+  message?: string;
+  failed_step_id?: number;
+}
+
+export interface DebugSettings {
+  // Flowchart block ids the stepper stops at
+  breakpoints: number[];
+  // Expressions such as "i == 5"; the stepper stops on the step where one becomes true
+  conditions: string[];
+  // Expressions evaluated against every step's variable_state
+  watches: string[];
+}
+
+export interface TraceDiscrepancy {
+  step_index: number;
+  field: 'flowchart_step_id' | 'transition' | 'variable_state' | 'actual_output' | 'length';
+  variable?: string;
+  expected: any;
+  actual: any;
+  message: string;
+}
+
+export interface TraceVerification {
+  status: 'verified' | 'mismatch' | 'unverified';
+  summary: string;
+  interpreter: InterpreterResult;
+  discrepancies: TraceDiscrepancy[];
+}
+
+export interface TestCase {
+  id: string;
+  name: string;
+  inputs: Record<string, string>;
+  // Raw text as typed; empty means "trust the AI's is_correct"
+  expected_output: string;
+}
+
+export type TestCaseStatus = 'pending' | 'running' | 'passed' | 'failed' | 'error' | 'skipped';
+
+export interface TestCaseResult {
+  status: TestCaseStatus;
+  simulation?: SimulationResult;
+  verification?: TraceVerification;
+  error?: string;
+}
+
 export interface AppState {
   description: string;
-  image: string | null;
+  images: string[];
   inputs: Record<string, string>;
   isAnalyzing: boolean;
   isSimulating: boolean;
   parsedData: ParseResult | null;
   simulationData: SimulationResult | null;
+  verification: TraceVerification | null;
   currentStepIndex: number;
+  testCases: TestCase[];
+  testResults: Record<string, TestCaseResult>;
+  isRunningSuite: boolean;
   showResults: boolean;
+  isEditing: boolean;
   errorMessage: string | null;
-  mode: 'text' | 'image';
+  // 'diagram' imports Mermaid or DOT source from `description` without an AI parse
+  // 'code' parses `description` as source code in `codeLanguage`
+  mode: 'text' | 'image' | 'diagram' | 'code';
+  codeLanguage: SourceLanguage;
+  // Library id of the lab being edited; null until it is first saved
+  labId: string | null;
+}
+
+// A saved lab: everything needed to reopen it without calling the AI again
+export interface LabRecord {
+  id: string;
+  title: string;
+  description: string;
+  images: string[];
+  mode: AppState['mode'];
+  codeLanguage?: SourceLanguage;
+  parsedData: ParseResult | null;
+  inputs: Record<string, string>;
+  simulationData: SimulationResult | null;
+  testCases: TestCase[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LabFile {
+  format: 'flowlab';
+  version: number;
+  exportedAt: string;
+  lab: Omit<LabRecord, 'id'>;
+}
+
+// Relative weight of each grading criterion; only their ratios matter
+export interface RubricWeights {
+  // Hidden tests whose output matches the reference solution's
+  output: number;
+  // Hidden tests where the flowchart reaches an end block without an error
+  termination: number;
+  // Hidden tests finished in at most twice the reference solution's steps
+  efficiency: number;
+}
+
+export interface HiddenTest {
+  name: string;
+  inputs: Record<string, string>;
+}
+
+export interface Assignment {
+  title: string;
+  // The only part students are shown
+  problem: string;
+  reference: ParseResult;
+  tests: HiddenTest[];
+  rubric: RubricWeights;
+}
+
+export interface AssignmentFile {
+  format: 'flowlab-assignment';
+  version: number;
+  exportedAt: string;
+  title: string;
+  problem: string;
+  rubric: RubricWeights;
+  // Reference flowchart and tests, base64-obfuscated so they are not readable at a glance; not a secret
+  hidden: string;
+}
+
+export interface HiddenTestGrade {
+  name: string;
+  status: InterpreterResult['status'];
+  outputMatches: boolean;
+  efficient: boolean;
+  message?: string;
+}
+
+export interface AssignmentGrade {
+  // 0-100, computed from the rubric; replaces the model's accuracy_score
+  score: number;
+  // Every hidden test produced the reference output
+  passed: boolean;
+  criteria: { criterion: keyof RubricWeights; weight: number; earned: number }[];
+  tests: HiddenTestGrade[];
+}
+
+export type CodeLanguage = 'pseudocode' | 'python' | 'javascript';
+
+// One line of generated code; stepId links it back to the flowchart block it came from
+export interface GeneratedLine {
+  text: string;
+  stepId: number | null;
+}
+
+export interface GeneratedCode {
+  language: CodeLanguage;
+  lines: GeneratedLine[];
+  // False when the flowchart's jumps could not be expressed as if/while and a
+  // step-by-step dispatch loop was generated instead
+  structured: boolean;
 }